@@ -219,16 +219,18 @@ export const CanvasDisplay: React.FC<CanvasDisplayProps> = ({
         // Falloff calculation: Calculate strength based on distance (closer = stronger)
         const falloff = 1 - dist / radius;
 
-        // Depth factor: Based on dot luminance (approximated by circle radius)
+        // Depth factor: Based on dot luminance (approximated by the group's data-r,
+        // falling back to a circle radius since <use> dots have no circle of their own)
         // Brighter (larger) dots move slightly more, darker dots stay closer to the plane
         let depth = 1;
-        const circle = group.querySelector("circle");
-        if (circle) {
-          const r = parseFloat(circle.getAttribute("r") || "0");
-          if (r > 0) {
-            const normalized = r / (r + 4); // maps to (0,1)
-            depth = 0.5 + normalized * 0.5; // keep within [0.5, 1.0] for subtlety
-          }
+        const r = parseFloat(
+          group.getAttribute("data-r") ||
+            group.querySelector("circle")?.getAttribute("r") ||
+            "0"
+        );
+        if (r > 0) {
+          const normalized = r / (r + 4); // maps to (0,1)
+          depth = 0.5 + normalized * 0.5; // keep within [0.5, 1.0] for subtlety
         }
 
         // Transform application: Apply calculated offset to dot
@@ -3,10 +3,41 @@ import {
   HalftoneSettings,
   DotShape,
   FillPattern,
+  SamplingMode,
+  LuminanceModel,
+  GridType,
+  HalftoneMethod,
+  DiffusionKernel,
+  ColorMode,
+  PaletteMethod,
+  GradientType,
+  GradientStop,
+  ColorSpace,
+  HueInterpolation,
+  LineStyle,
+  EdgeMode,
+  EdgeDetector,
+  CmykPlate,
+  ToneSettings,
   AnimationSettings,
 } from "../types";
+import { DEFAULT_CMYK_PLATES } from "../core/src/halftone";
+import { DEFAULT_STIPPLE_ITERATIONS } from "../core/src/stipple";
+import { DEFAULT_ASCII_RAMP } from "../core/src/ascii";
+import { createSeed, DEFAULT_SEED } from "../core/src/utils/random";
+import { DEFAULT_TONE } from "../core/src/utils/tone";
+import { DEFAULT_PRINT_WIDTH } from "../core/src/utils/dotGain";
+import {
+  resolveGradientStops,
+  sampleGradientStops,
+} from "../core/src/utils/gradient";
+import { createPathStamp, parseSvgStamp } from "../core/src/utils/shapes";
 import { Slider } from "./Slider";
 import { ChevronDownIcon, ChevronRightIcon } from "./Icon";
+import { CurveEditor } from "./CurveEditor";
+
+// Gradient preview: Colors sampled along the bar
+const GRADIENT_PREVIEW_STEPS = 16;
 
 interface ControlsPanelProps {
   settings: HalftoneSettings;
@@ -21,6 +52,8 @@ interface ControlsPanelProps {
   ) => void;
   onImageUpload: (event: React.ChangeEvent<HTMLInputElement>) => void;
   onCopySvg: () => void;
+  onCopyText?: () => void;
+  onExportHtml?: () => void;
   onExportLottie?: () => void;
   hasImage: boolean;
 }
@@ -131,16 +164,57 @@ export const ControlsPanel: React.FC<ControlsPanelProps> = ({
   onAnimationChange,
   onImageUpload,
   onCopySvg,
+  onCopyText,
+  onExportHtml,
   onExportLottie,
   hasImage,
 }) => {
   const [activeTab, setActiveTab] = useState<"basic" | "animation">("basic");
   const fileInputRef = React.useRef<HTMLInputElement>(null);
 
+  const stampInputRef = React.useRef<HTMLInputElement>(null);
+  const [stampError, setStampError] = useState("");
+
   const handleUploadClick = () => {
     fileInputRef.current?.click();
   };
 
+  // Stamp upload: SVG icons become path stamps, other images bitmap stamps at their pixel size
+  const handleStampUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onerror = () => setStampError("Could not read the stamp file.");
+    if (file.type === "image/svg+xml" || file.name.endsWith(".svg")) {
+      reader.onload = () => {
+        const stamp = parseSvgStamp(String(reader.result));
+        setStampError(stamp ? "" : "No <path> elements found in the SVG.");
+        if (stamp) onSettingsChange("customStamp", stamp);
+      };
+      reader.readAsText(file);
+    } else if (file.type.startsWith("image/")) {
+      reader.onload = () => {
+        const data = String(reader.result);
+        const img = new Image();
+        img.onload = () => {
+          setStampError("");
+          onSettingsChange("customStamp", {
+            kind: "image",
+            data,
+            width: img.naturalWidth,
+            height: img.naturalHeight,
+          });
+        };
+        img.onerror = () => setStampError("Could not decode the stamp image.");
+        img.src = data;
+      };
+      reader.readAsDataURL(file);
+    } else {
+      setStampError("Unsupported stamp file. Use an SVG or image.");
+    }
+  };
+
   const renderShapeButton = (shape: DotShape, label: string) => (
     <button
       onClick={() => onSettingsChange("dotShape", shape)}
@@ -154,6 +228,247 @@ export const ControlsPanel: React.FC<ControlsPanelProps> = ({
     </button>
   );
 
+  const renderGridButton = (gridType: GridType, label: string) => (
+    <button
+      onClick={() => onSettingsChange("gridType", gridType)}
+      className={`px-1.5 py-1.5 text-xs rounded transition-colors ${
+        (settings.gridType ?? "square") === gridType
+          ? "bg-indigo-500 text-white"
+          : "bg-gray-700/50 hover:bg-gray-600 text-gray-300"
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  const renderLuminanceButton = (model: LuminanceModel, label: string) => (
+    <button
+      onClick={() => onSettingsChange("luminanceModel", model)}
+      className={`px-1.5 py-1.5 text-xs rounded transition-colors ${
+        (settings.luminanceModel ?? "bt601") === model
+          ? "bg-indigo-500 text-white"
+          : "bg-gray-700/50 hover:bg-gray-600 text-gray-300"
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  const renderSamplingButton = (mode: SamplingMode, label: string) => (
+    <button
+      onClick={() => onSettingsChange("samplingMode", mode)}
+      className={`px-1.5 py-1.5 text-xs rounded transition-colors ${
+        (settings.samplingMode ?? "center") === mode
+          ? "bg-indigo-500 text-white"
+          : "bg-gray-700/50 hover:bg-gray-600 text-gray-300"
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  const renderMethodButton = (method: HalftoneMethod, label: string) => (
+    <button
+      onClick={() => onSettingsChange("method", method)}
+      className={`px-2.5 py-1.5 text-xs rounded transition-colors ${
+        (settings.method ?? "amplitude") === method
+          ? "bg-indigo-500 text-white"
+          : "bg-gray-700/50 hover:bg-gray-600 text-gray-300"
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  const renderKernelButton = (kernel: DiffusionKernel, label: string) => (
+    <button
+      onClick={() => onSettingsChange("diffusionKernel", kernel)}
+      className={`px-1.5 py-1.5 text-xs rounded transition-colors ${
+        (settings.diffusionKernel ?? "floyd-steinberg") === kernel
+          ? "bg-indigo-500 text-white"
+          : "bg-gray-700/50 hover:bg-gray-600 text-gray-300"
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  const renderLineStyleButton = (style: LineStyle, label: string) => (
+    <button
+      onClick={() => onSettingsChange("lineStyle", style)}
+      className={`px-1.5 py-1.5 text-xs rounded transition-colors ${
+        (settings.lineStyle ?? "none") === style
+          ? "bg-indigo-500 text-white"
+          : "bg-gray-700/50 hover:bg-gray-600 text-gray-300"
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  const renderEdgeModeButton = (mode: EdgeMode, label: string) => (
+    <button
+      onClick={() => onSettingsChange("edgeMode", mode)}
+      className={`px-1.5 py-1.5 text-xs rounded transition-colors ${
+        (settings.edgeMode ?? "none") === mode
+          ? "bg-indigo-500 text-white"
+          : "bg-gray-700/50 hover:bg-gray-600 text-gray-300"
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  const renderEdgeDetectorButton = (detector: EdgeDetector, label: string) => (
+    <button
+      onClick={() => onSettingsChange("edgeDetector", detector)}
+      className={`px-1.5 py-1.5 text-xs rounded transition-colors ${
+        (settings.edgeDetector ?? "sobel") === detector
+          ? "bg-indigo-500 text-white"
+          : "bg-gray-700/50 hover:bg-gray-600 text-gray-300"
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  const renderColorModeButton = (mode: ColorMode, label: string) => (
+    <button
+      onClick={() => onSettingsChange("colorMode", mode)}
+      className={`px-2.5 py-1.5 text-xs rounded transition-colors ${
+        (settings.colorMode ?? "palette") === mode
+          ? "bg-indigo-500 text-white"
+          : "bg-gray-700/50 hover:bg-gray-600 text-gray-300"
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  const renderPaletteMethodButton = (method: PaletteMethod, label: string) => (
+    <button
+      onClick={() => onSettingsChange("paletteMethod", method)}
+      className={`px-1.5 py-1.5 text-xs rounded transition-colors ${
+        (settings.paletteMethod ?? "median-cut") === method
+          ? "bg-indigo-500 text-white"
+          : "bg-gray-700/50 hover:bg-gray-600 text-gray-300"
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  const paletteColors = settings.paletteColors ?? [];
+  const updatePaletteColor = (index: number, color: string) => {
+    onSettingsChange(
+      "paletteColors",
+      paletteColors.map((current, i) => (i === index ? color : current))
+    );
+  };
+
+  const renderGradientTypeButton = (type: GradientType, label: string) => (
+    <button
+      onClick={() => onSettingsChange("gradientType", type)}
+      className={`px-1.5 py-1.5 text-xs rounded transition-colors ${
+        (settings.gradientType ?? "linear") === type
+          ? "bg-indigo-500 text-white"
+          : "bg-gray-700/50 hover:bg-gray-600 text-gray-300"
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  const renderColorSpaceButton = (space: ColorSpace, label: string) => (
+    <button
+      onClick={() => onSettingsChange("gradientColorSpace", space)}
+      className={`px-1.5 py-1.5 text-xs rounded transition-colors ${
+        (settings.gradientColorSpace ?? "srgb") === space
+          ? "bg-indigo-500 text-white"
+          : "bg-gray-700/50 hover:bg-gray-600 text-gray-300"
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  const renderHueButton = (hue: HueInterpolation, label: string) => (
+    <button
+      onClick={() => onSettingsChange("gradientHue", hue)}
+      className={`px-2.5 py-1.5 text-xs rounded transition-colors ${
+        (settings.gradientHue ?? "shorter") === hue
+          ? "bg-indigo-500 text-white"
+          : "bg-gray-700/50 hover:bg-gray-600 text-gray-300"
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  const gradientType = settings.gradientType ?? "linear";
+  const gradientSpace = settings.gradientColorSpace ?? "srgb";
+  const gradientHue = settings.gradientHue ?? "shorter";
+  // Stops: Edited in the order they were added, so a dragged stop keeps its row
+  const sortedStops = resolveGradientStops(settings);
+  const gradientStops = settings.gradientStops?.length
+    ? settings.gradientStops
+    : sortedStops;
+  const gradientCenter = settings.gradientCenter ?? { x: 0.5, y: 0.5 };
+  const updateGradientStop = (
+    index: number,
+    changes: Partial<GradientStop>
+  ) => {
+    onSettingsChange(
+      "gradientStops",
+      gradientStops.map((stop, i) =>
+        i === index ? { ...stop, ...changes } : stop
+      )
+    );
+  };
+  const addGradientStop = () => {
+    // New stop: Halfway into the widest gap, in the color already there
+    let gap = 0;
+    for (let i = 1; i < sortedStops.length - 1; i++) {
+      if (
+        sortedStops[i + 1].offset - sortedStops[i].offset >
+        sortedStops[gap + 1].offset - sortedStops[gap].offset
+      ) {
+        gap = i;
+      }
+    }
+    const start = sortedStops[gap];
+    const end = sortedStops[gap + 1] ?? start;
+    const offset = (start.offset + end.offset) / 2;
+    onSettingsChange("gradientStops", [
+      ...gradientStops,
+      {
+        offset,
+        color: sampleGradientStops(
+          sortedStops,
+          offset,
+          gradientSpace,
+          gradientHue
+        ),
+      },
+    ]);
+  };
+
+  const layoutCenter = settings.layoutCenter ?? { x: 0.5, y: 0.5 };
+  const tone = settings.tone ?? DEFAULT_TONE;
+  const updateTone = (changes: Partial<ToneSettings>) => {
+    onSettingsChange("tone", { ...tone, ...changes });
+  };
+
+  const cmykPlates = settings.cmykPlates ?? DEFAULT_CMYK_PLATES;
+  const updatePlate = (index: number, changes: Partial<CmykPlate>) => {
+    onSettingsChange(
+      "cmykPlates",
+      cmykPlates.map((plate, i) =>
+        i === index ? { ...plate, ...changes } : plate
+      )
+    );
+  };
+
   const renderFillPatternButton = (pattern: FillPattern, label: string) => (
     <button
       onClick={() => onSettingsChange("fillPattern", pattern)}
@@ -229,9 +544,212 @@ export const ControlsPanel: React.FC<ControlsPanelProps> = ({
                     onSettingsChange("dotSize", parseFloat(e.target.value))
                   }
                 />
+                <div className="space-y-1.5">
+                  <label className="text-xs text-gray-300">Grid</label>
+                  <div className="grid grid-cols-4 gap-1">
+                    {renderGridButton("square", "Square")}
+                    {renderGridButton("hex", "Hex")}
+                    {renderGridButton("brick", "Brick")}
+                    {renderGridButton("diamond", "Diamond")}
+                    {renderGridButton("poisson", "Poisson")}
+                    {renderGridButton("concentric", "Rings")}
+                    {renderGridButton("spiral", "Spiral")}
+                    {renderGridButton("adaptive", "Adaptive")}
+                  </div>
+                </div>
+                {settings.gridType === "adaptive" && (
+                  <>
+                    <Slider
+                      label="Min Depth"
+                      value={settings.adaptiveMinDepth ?? 0}
+                      min={0}
+                      max={4}
+                      step={1}
+                      onChange={(e) =>
+                        onSettingsChange(
+                          "adaptiveMinDepth",
+                          parseInt(e.target.value)
+                        )
+                      }
+                    />
+                    <Slider
+                      label="Max Depth"
+                      value={settings.adaptiveMaxDepth ?? 3}
+                      min={0}
+                      max={5}
+                      step={1}
+                      onChange={(e) =>
+                        onSettingsChange(
+                          "adaptiveMaxDepth",
+                          parseInt(e.target.value)
+                        )
+                      }
+                    />
+                    <Slider
+                      label="Detail Threshold"
+                      value={settings.adaptiveThreshold ?? 0.08}
+                      min={0.01}
+                      max={0.5}
+                      step={0.01}
+                      onChange={(e) =>
+                        onSettingsChange(
+                          "adaptiveThreshold",
+                          parseFloat(e.target.value)
+                        )
+                      }
+                    />
+                  </>
+                )}
+                {(settings.gridType === "concentric" ||
+                  settings.gridType === "spiral") && (
+                  <>
+                    <Slider
+                      label="Center X"
+                      value={layoutCenter.x}
+                      min={0}
+                      max={1}
+                      step={0.01}
+                      onChange={(e) =>
+                        onSettingsChange("layoutCenter", {
+                          ...layoutCenter,
+                          x: parseFloat(e.target.value),
+                        })
+                      }
+                    />
+                    <Slider
+                      label="Center Y"
+                      value={layoutCenter.y}
+                      min={0}
+                      max={1}
+                      step={0.01}
+                      onChange={(e) =>
+                        onSettingsChange("layoutCenter", {
+                          ...layoutCenter,
+                          y: parseFloat(e.target.value),
+                        })
+                      }
+                    />
+                  </>
+                )}
+                <Slider
+                  label="Screen Angle"
+                  value={settings.screenAngle ?? 0}
+                  min={0}
+                  max={90}
+                  step={1}
+                  onChange={(e) =>
+                    onSettingsChange("screenAngle", parseInt(e.target.value))
+                  }
+                />
+                <div className="space-y-1.5">
+                  <label className="text-xs text-gray-300">Sampling</label>
+                  <div className="grid grid-cols-5 gap-1">
+                    {renderSamplingButton("center", "Center")}
+                    {renderSamplingButton("average", "Avg")}
+                    {renderSamplingButton("gaussian", "Gauss")}
+                    {renderSamplingButton("max", "Max")}
+                    {renderSamplingButton("min", "Min")}
+                  </div>
+                </div>
               </div>
             </CollapsibleSection>
 
+            {/* Screening */}
+            <CollapsibleSection title="Screening">
+              <div className="grid grid-cols-4 gap-2">
+                {renderMethodButton("amplitude", "Dot Size")}
+                {renderMethodButton("diffusion", "Dithered")}
+                {renderMethodButton("stipple", "Stippled")}
+                {renderMethodButton("ascii", "ASCII")}
+              </div>
+              {settings.method === "ascii" && (
+                <div className="space-y-1">
+                  <input
+                    type="text"
+                    value={settings.asciiRamp ?? DEFAULT_ASCII_RAMP}
+                    onChange={(e) =>
+                      onSettingsChange("asciiRamp", e.target.value)
+                    }
+                    className="w-full bg-gray-700/50 border border-gray-600/50 rounded px-2 py-1.5 font-mono text-xs text-white whitespace-pre focus:outline-none focus:border-indigo-500/50 focus:ring-1 focus:ring-indigo-500/30"
+                    placeholder={DEFAULT_ASCII_RAMP}
+                  />
+                  <p className="text-xs text-gray-400">
+                    Characters from darkest to brightest cell.
+                  </p>
+                </div>
+              )}
+              {settings.method === "diffusion" && (
+                <div className="grid grid-cols-4 gap-1">
+                  {renderKernelButton("floyd-steinberg", "Floyd")}
+                  {renderKernelButton("atkinson", "Atkinson")}
+                  {renderKernelButton("jarvis-judice-ninke", "JJN")}
+                  {renderKernelButton("stucki", "Stucki")}
+                </div>
+              )}
+              {(settings.method ?? "amplitude") === "amplitude" && (
+                <>
+                  <Slider
+                    label="Size Levels"
+                    value={settings.sizeLevels ?? 0}
+                    min={0}
+                    max={8}
+                    step={1}
+                    onChange={(e) =>
+                      onSettingsChange("sizeLevels", parseInt(e.target.value))
+                    }
+                  />
+                  {(settings.sizeLevels ?? 0) > 0 && (
+                    <ToggleSwitch
+                      checked={settings.sizeLevelDither ?? false}
+                      onChange={(checked) =>
+                        onSettingsChange("sizeLevelDither", checked)
+                      }
+                      label="Dither Between Levels"
+                    />
+                  )}
+                </>
+              )}
+              {settings.method === "stipple" && (
+                <Slider
+                  label="Relaxation Passes"
+                  value={
+                    settings.stippleIterations ?? DEFAULT_STIPPLE_ITERATIONS
+                  }
+                  min={0}
+                  max={100}
+                  step={1}
+                  onChange={(e) =>
+                    onSettingsChange(
+                      "stippleIterations",
+                      parseInt(e.target.value)
+                    )
+                  }
+                />
+              )}
+              <div className="space-y-1.5">
+                <label className="text-xs text-gray-300">Lines</label>
+                <div className="grid grid-cols-5 gap-1">
+                  {renderLineStyleButton("none", "Off")}
+                  {renderLineStyleButton("horizontal", "Horiz")}
+                  {renderLineStyleButton("angled", "Angled")}
+                  {renderLineStyleButton("wavy", "Wavy")}
+                  {renderLineStyleButton("circular", "Circles")}
+                </div>
+              </div>
+              {settings.lineStyle === "wavy" && (
+                <Slider
+                  label="Waviness"
+                  value={settings.lineWaviness ?? 0.5}
+                  min={0}
+                  max={2}
+                  step={0.05}
+                  onChange={(e) =>
+                    onSettingsChange("lineWaviness", parseFloat(e.target.value))
+                  }
+                />
+              )}
+            </CollapsibleSection>
+
             {/* Dot Shape */}
             <CollapsibleSection title="Dot Shape">
               <div className="grid grid-cols-4 gap-2">
@@ -239,7 +757,45 @@ export const ControlsPanel: React.FC<ControlsPanelProps> = ({
                 {renderShapeButton("square", "Square")}
                 {renderShapeButton("plus", "+")}
                 {renderShapeButton("custom", "Custom")}
+                {renderShapeButton("euclidean", "Euclid")}
+                {renderShapeButton("ellipse", "Ellipse")}
+                {renderShapeButton("diamond", "Diamond")}
+                {renderShapeButton("triangle", "Triangle")}
+                {renderShapeButton("hexagon", "Hexagon")}
+                {renderShapeButton("star", "Star")}
+                {renderShapeButton("line", "Line")}
               </div>
+              {settings.dotShape === "ellipse" && (
+                <div className="pt-2">
+                  <Slider
+                    label="Aspect Ratio"
+                    value={settings.ellipseAspect ?? 0.5}
+                    min={0.1}
+                    max={1}
+                    step={0.05}
+                    onChange={(e) =>
+                      onSettingsChange(
+                        "ellipseAspect",
+                        parseFloat(e.target.value)
+                      )
+                    }
+                  />
+                </div>
+              )}
+              {settings.dotShape === "star" && (
+                <div className="pt-2">
+                  <Slider
+                    label="Star Points"
+                    value={settings.starPoints ?? 5}
+                    min={3}
+                    max={12}
+                    step={1}
+                    onChange={(e) =>
+                      onSettingsChange("starPoints", parseInt(e.target.value))
+                    }
+                  />
+                </div>
+              )}
               {settings.dotShape === "custom" && (
                 <div className="pt-2">
                   <input
@@ -255,6 +811,57 @@ export const ControlsPanel: React.FC<ControlsPanelProps> = ({
                     className="w-full bg-gray-700/50 border border-gray-600/50 rounded px-2 py-1.5 text-center font-bold text-base text-white focus:outline-none focus:border-indigo-500/50 focus:ring-1 focus:ring-indigo-500/30"
                     placeholder="?"
                   />
+                  <textarea
+                    rows={2}
+                    value={
+                      settings.customStamp?.kind === "path"
+                        ? settings.customStamp.data
+                        : ""
+                    }
+                    onChange={(e) =>
+                      onSettingsChange(
+                        "customStamp",
+                        e.target.value.trim()
+                          ? settings.customStamp?.kind === "path"
+                            ? { ...settings.customStamp, data: e.target.value }
+                            : createPathStamp(e.target.value)
+                          : undefined
+                      )
+                    }
+                    className="mt-2 w-full bg-gray-700/50 border border-gray-600/50 rounded px-2 py-1.5 font-mono text-xs text-white focus:outline-none focus:border-indigo-500/50 focus:ring-1 focus:ring-indigo-500/30"
+                    placeholder="SVG path data (24×24), e.g. M12 2 L22 22 H2 Z"
+                  />
+                  <div className="flex gap-2 pt-2">
+                    <button
+                      onClick={() => stampInputRef.current?.click()}
+                      className="flex-1 px-2.5 py-1.5 text-xs rounded transition-colors bg-gray-700/50 hover:bg-gray-600 text-gray-300"
+                    >
+                      {settings.customStamp?.kind === "image"
+                        ? "Change Stamp"
+                        : "Upload Stamp"}
+                    </button>
+                    {settings.customStamp && (
+                      <button
+                        onClick={() => {
+                          setStampError("");
+                          onSettingsChange("customStamp", undefined);
+                        }}
+                        className="px-2.5 py-1.5 text-xs rounded transition-colors bg-gray-700/50 hover:bg-gray-600 text-gray-300"
+                      >
+                        Clear
+                      </button>
+                    )}
+                  </div>
+                  <input
+                    type="file"
+                    ref={stampInputRef}
+                    onChange={handleStampUpload}
+                    className="hidden"
+                    accept=".svg,image/*"
+                  />
+                  {stampError && (
+                    <p className="text-xs text-red-400 pt-1">{stampError}</p>
+                  )}
                 </div>
               )}
             </CollapsibleSection>
@@ -282,6 +889,25 @@ export const ControlsPanel: React.FC<ControlsPanelProps> = ({
                     onSettingsChange("randomness", parseFloat(e.target.value))
                   }
                 />
+                <div className="flex items-center gap-2">
+                  <div className="flex-1">
+                    <CompactInput
+                      label="Seed"
+                      type="number"
+                      value={settings.seed ?? DEFAULT_SEED}
+                      step={1}
+                      onChange={(value) =>
+                        onSettingsChange("seed", Math.round(Number(value)))
+                      }
+                    />
+                  </div>
+                  <button
+                    onClick={() => onSettingsChange("seed", createSeed())}
+                    className="px-2.5 py-1 text-xs rounded transition-colors bg-gray-700/50 hover:bg-gray-600 text-gray-300"
+                  >
+                    Reshuffle
+                  </button>
+                </div>
                 <Slider
                   label="Dot Angle"
                   value={settings.angle}
@@ -300,6 +926,337 @@ export const ControlsPanel: React.FC<ControlsPanelProps> = ({
               </div>
             </CollapsibleSection>
 
+            {/* Luminance Source */}
+            <CollapsibleSection title="Luminance Source" defaultOpen={false}>
+              <div className="grid grid-cols-3 gap-1">
+                {renderLuminanceButton("bt601", "BT.601")}
+                {renderLuminanceButton("bt709", "BT.709")}
+                {renderLuminanceButton("lightness", "L*")}
+                {renderLuminanceButton("red", "Red")}
+                {renderLuminanceButton("green", "Green")}
+                {renderLuminanceButton("blue", "Blue")}
+                {renderLuminanceButton("alpha", "Alpha")}
+                {renderLuminanceButton("saturation", "Saturation")}
+                {renderLuminanceButton("key", "Key Hue")}
+              </div>
+              {settings.luminanceModel === "key" && (
+                <div className="flex items-center gap-2">
+                  <div
+                    className="w-5 h-5 rounded border border-gray-600"
+                    style={{ backgroundColor: settings.keyColor ?? "#ff0000" }}
+                  />
+                  <input
+                    type="text"
+                    value={settings.keyColor ?? "#ff0000"}
+                    onChange={(e) =>
+                      onSettingsChange("keyColor", e.target.value)
+                    }
+                    className="flex-1 bg-gray-700/50 border border-gray-600/50 rounded px-2 py-1 text-xs text-white font-mono focus:outline-none focus:border-indigo-500/50 focus:ring-1 focus:ring-indigo-500/30"
+                  />
+                  <input
+                    type="color"
+                    value={settings.keyColor ?? "#ff0000"}
+                    onChange={(e) =>
+                      onSettingsChange("keyColor", e.target.value)
+                    }
+                    className="w-5 h-5 p-0 border border-gray-600/50 rounded cursor-pointer bg-transparent"
+                  />
+                </div>
+              )}
+            </CollapsibleSection>
+
+            {/* Transparency */}
+            <CollapsibleSection title="Transparency" defaultOpen={false}>
+              <div className="space-y-2.5">
+                <ToggleSwitch
+                  checked={settings.alphaMask ?? false}
+                  onChange={(checked) => onSettingsChange("alphaMask", checked)}
+                  label="Mask Transparent Areas"
+                />
+                {settings.alphaMask && (
+                  <Slider
+                    label="Alpha Threshold"
+                    value={settings.alphaThreshold ?? 0.5}
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    onChange={(e) =>
+                      onSettingsChange(
+                        "alphaThreshold",
+                        parseFloat(e.target.value)
+                      )
+                    }
+                  />
+                )}
+                <ToggleSwitch
+                  checked={settings.alphaCoverage ?? false}
+                  onChange={(checked) =>
+                    onSettingsChange("alphaCoverage", checked)
+                  }
+                  label="Scale Dots by Opacity"
+                />
+              </div>
+            </CollapsibleSection>
+
+            {/* Edges */}
+            <CollapsibleSection title="Edges" defaultOpen={false}>
+              <div className="space-y-2.5">
+                <div className="grid grid-cols-4 gap-1">
+                  {renderEdgeModeButton("none", "Off")}
+                  {renderEdgeModeButton("boost", "Boost")}
+                  {renderEdgeModeButton("placement", "Placement")}
+                  {renderEdgeModeButton("outline", "Outline")}
+                </div>
+                {(settings.edgeMode ?? "none") !== "none" && (
+                  <>
+                    <div className="grid grid-cols-2 gap-1">
+                      {renderEdgeDetectorButton("sobel", "Sobel")}
+                      {renderEdgeDetectorButton("canny", "Canny")}
+                    </div>
+                    <Slider
+                      label="Edge Strength"
+                      value={settings.edgeStrength ?? 0.5}
+                      min={0}
+                      max={1}
+                      step={0.05}
+                      onChange={(e) =>
+                        onSettingsChange(
+                          "edgeStrength",
+                          parseFloat(e.target.value)
+                        )
+                      }
+                    />
+                    <Slider
+                      label="Edge Threshold"
+                      value={settings.edgeThreshold ?? 0.25}
+                      min={0.05}
+                      max={1}
+                      step={0.05}
+                      onChange={(e) =>
+                        onSettingsChange(
+                          "edgeThreshold",
+                          parseFloat(e.target.value)
+                        )
+                      }
+                    />
+                    {settings.edgeMode === "placement" &&
+                      settings.gridType !== "adaptive" && (
+                        <p className="text-xs text-gray-400">
+                          Placement only affects the Adaptive grid.
+                        </p>
+                      )}
+                  </>
+                )}
+              </div>
+            </CollapsibleSection>
+
+            {/* Print */}
+            <CollapsibleSection title="Print" defaultOpen={false}>
+              <div className="space-y-2.5">
+                <Slider
+                  label="Dot Gain"
+                  value={settings.dotGain ?? 0}
+                  min={0}
+                  max={0.4}
+                  step={0.01}
+                  onChange={(e) =>
+                    onSettingsChange("dotGain", parseFloat(e.target.value))
+                  }
+                />
+                <Slider
+                  label="Print Width (mm)"
+                  value={settings.printWidth ?? DEFAULT_PRINT_WIDTH}
+                  min={20}
+                  max={1000}
+                  step={1}
+                  onChange={(e) =>
+                    onSettingsChange("printWidth", parseFloat(e.target.value))
+                  }
+                />
+                <Slider
+                  label="Min Dot (mm)"
+                  value={settings.minDotDiameter ?? 0}
+                  min={0}
+                  max={1}
+                  step={0.01}
+                  onChange={(e) =>
+                    onSettingsChange(
+                      "minDotDiameter",
+                      parseFloat(e.target.value)
+                    )
+                  }
+                />
+                <Slider
+                  label="Max Dot (mm)"
+                  value={settings.maxDotDiameter ?? 0}
+                  min={0}
+                  max={5}
+                  step={0.05}
+                  onChange={(e) =>
+                    onSettingsChange(
+                      "maxDotDiameter",
+                      parseFloat(e.target.value)
+                    )
+                  }
+                />
+                <Slider
+                  label="Min Gap (mm)"
+                  value={settings.minDotGap ?? 0}
+                  min={0}
+                  max={1}
+                  step={0.01}
+                  onChange={(e) =>
+                    onSettingsChange("minDotGap", parseFloat(e.target.value))
+                  }
+                />
+                <p className="text-xs text-gray-400">
+                  Dot sizes are measured on the printed image; 0 turns a limit
+                  off.
+                </p>
+              </div>
+            </CollapsibleSection>
+
+            {/* Tone */}
+            <CollapsibleSection
+              title="Tone"
+              defaultOpen={false}
+              headerActions={
+                settings.tone && (
+                  <span
+                    role="button"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onSettingsChange("tone", undefined);
+                    }}
+                    className="text-xs text-gray-400 hover:text-gray-200"
+                  >
+                    Reset
+                  </span>
+                )
+              }
+            >
+              <div className="space-y-2.5">
+                <Slider
+                  label="Brightness"
+                  value={tone.brightness}
+                  min={-1}
+                  max={1}
+                  step={0.01}
+                  onChange={(e) =>
+                    updateTone({ brightness: parseFloat(e.target.value) })
+                  }
+                />
+                <Slider
+                  label="Contrast"
+                  value={tone.contrast}
+                  min={-1}
+                  max={0.95}
+                  step={0.01}
+                  onChange={(e) =>
+                    updateTone({ contrast: parseFloat(e.target.value) })
+                  }
+                />
+                <Slider
+                  label="Gamma"
+                  value={tone.gamma}
+                  min={0.2}
+                  max={3}
+                  step={0.05}
+                  onChange={(e) =>
+                    updateTone({ gamma: parseFloat(e.target.value) })
+                  }
+                />
+                <Slider
+                  label="Black Point"
+                  value={tone.blackPoint}
+                  min={0}
+                  max={1}
+                  step={0.01}
+                  onChange={(e) =>
+                    updateTone({
+                      blackPoint: Math.min(
+                        parseFloat(e.target.value),
+                        tone.whitePoint - 0.01
+                      ),
+                    })
+                  }
+                />
+                <Slider
+                  label="White Point"
+                  value={tone.whitePoint}
+                  min={0}
+                  max={1}
+                  step={0.01}
+                  onChange={(e) =>
+                    updateTone({
+                      whitePoint: Math.max(
+                        parseFloat(e.target.value),
+                        tone.blackPoint + 0.01
+                      ),
+                    })
+                  }
+                />
+                <div className="space-y-1.5">
+                  <label className="text-xs text-gray-300">Curve</label>
+                  <CurveEditor
+                    points={tone.curve}
+                    onChange={(curve) => updateTone({ curve })}
+                  />
+                  <p className="text-xs text-gray-400">
+                    Drag points to reshape. Double-click to add or remove.
+                  </p>
+                </div>
+              </div>
+            </CollapsibleSection>
+
+            {/* Color Separation */}
+            <CollapsibleSection title="Color Separation" defaultOpen={false}>
+              <div className="space-y-2.5">
+                <ToggleSwitch
+                  checked={settings.separation === "cmyk"}
+                  onChange={(checked) =>
+                    onSettingsChange("separation", checked ? "cmyk" : "none")
+                  }
+                  label="CMYK Plates"
+                />
+                {settings.separation === "cmyk" && (
+                  <div className="space-y-2 pt-1">
+                    {cmykPlates.map((plate, index) => (
+                      <div
+                        key={plate.channel}
+                        className="flex items-center gap-2"
+                      >
+                        <div
+                          className="w-5 h-5 rounded border border-gray-600 flex-shrink-0"
+                          style={{ backgroundColor: plate.color }}
+                        />
+                        <div className="flex-1">
+                          <CompactInput
+                            label={plate.channel.charAt(0).toUpperCase()}
+                            type="number"
+                            value={plate.screenAngle}
+                            min={0}
+                            max={90}
+                            step={1}
+                            suffix="°"
+                            onChange={(value) =>
+                              updatePlate(index, { screenAngle: Number(value) })
+                            }
+                          />
+                        </div>
+                        <ToggleSwitch
+                          checked={plate.enabled}
+                          onChange={(checked) =>
+                            updatePlate(index, { enabled: checked })
+                          }
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </CollapsibleSection>
+
             {/* Fill Pattern */}
             <CollapsibleSection title="Fill Pattern">
               <div className="grid grid-cols-3 gap-2">
@@ -312,6 +1269,110 @@ export const ControlsPanel: React.FC<ControlsPanelProps> = ({
             {/* Fill */}
             <CollapsibleSection title="Fill">
               <div className="space-y-2">
+                <div className="grid grid-cols-3 gap-2">
+                  {renderColorModeButton("palette", "Palette")}
+                  {renderColorModeButton("image", "Image Color")}
+                  {renderColorModeButton("inks", "Inks")}
+                </div>
+                {settings.colorMode === "inks" && (
+                  <>
+                    <div className="grid grid-cols-3 gap-1.5">
+                      {renderPaletteMethodButton("median-cut", "Median Cut")}
+                      {renderPaletteMethodButton("kmeans", "K-Means")}
+                      {renderPaletteMethodButton("custom", "Custom")}
+                    </div>
+                    {(settings.paletteMethod ?? "median-cut") !== "custom" ? (
+                      <Slider
+                        label="Inks"
+                        value={settings.paletteSize ?? 4}
+                        min={2}
+                        max={12}
+                        step={1}
+                        onChange={(e) =>
+                          onSettingsChange(
+                            "paletteSize",
+                            parseInt(e.target.value)
+                          )
+                        }
+                      />
+                    ) : (
+                      <div className="space-y-1.5">
+                        {paletteColors.map((color, index) => (
+                          <div key={index} className="flex items-center gap-2">
+                            <input
+                              type="color"
+                              value={color}
+                              onChange={(e) =>
+                                updatePaletteColor(index, e.target.value)
+                              }
+                              className="w-5 h-5 p-0 border border-gray-600/50 rounded cursor-pointer bg-transparent"
+                            />
+                            <input
+                              type="text"
+                              value={color}
+                              onChange={(e) =>
+                                updatePaletteColor(index, e.target.value)
+                              }
+                              className="flex-1 bg-gray-700/50 border border-gray-600/50 rounded px-2 py-1 text-xs text-white font-mono focus:outline-none focus:border-indigo-500/50 focus:ring-1 focus:ring-indigo-500/30"
+                            />
+                            <button
+                              onClick={() =>
+                                onSettingsChange(
+                                  "paletteColors",
+                                  paletteColors.filter((_, i) => i !== index)
+                                )
+                              }
+                              className="px-2 py-1 text-xs rounded bg-gray-700/50 hover:bg-gray-600 text-gray-300 transition-colors"
+                            >
+                              Remove
+                            </button>
+                          </div>
+                        ))}
+                        <button
+                          onClick={() =>
+                            onSettingsChange("paletteColors", [
+                              ...paletteColors,
+                              "#000000",
+                            ])
+                          }
+                          className="w-full px-2 py-1.5 text-xs rounded bg-gray-700/50 hover:bg-gray-600 text-gray-300 transition-colors"
+                        >
+                          Add Ink
+                        </button>
+                      </div>
+                    )}
+                  </>
+                )}
+                {settings.colorMode === "image" && (
+                  <>
+                    <Slider
+                      label="Saturation"
+                      value={settings.colorSaturation ?? 1}
+                      min={0}
+                      max={3}
+                      step={0.05}
+                      onChange={(e) =>
+                        onSettingsChange(
+                          "colorSaturation",
+                          parseFloat(e.target.value)
+                        )
+                      }
+                    />
+                    <Slider
+                      label="Color Levels"
+                      value={settings.colorLevels ?? 0}
+                      min={0}
+                      max={8}
+                      step={1}
+                      onChange={(e) =>
+                        onSettingsChange(
+                          "colorLevels",
+                          parseInt(e.target.value)
+                        )
+                      }
+                    />
+                  </>
+                )}
                 <div className="flex items-center gap-2">
                   <div
                     className="w-5 h-5 rounded border border-gray-600"
@@ -330,7 +1391,7 @@ export const ControlsPanel: React.FC<ControlsPanelProps> = ({
                     className="w-5 h-5 p-0 border border-gray-600/50 rounded cursor-pointer bg-transparent"
                   />
                 </div>
-                {settings.useGradient && (
+                {settings.useGradient && settings.colorMode !== "image" && (
                   <div className="flex items-center gap-2">
                     <div
                       className="w-5 h-5 rounded border border-gray-600"
@@ -368,30 +1429,148 @@ export const ControlsPanel: React.FC<ControlsPanelProps> = ({
                   label="Use Gradient"
                 />
                 {settings.useGradient && (
-                  <div className="grid grid-cols-2 gap-2 pt-1">
-                    <button
-                      onClick={() =>
-                        onSettingsChange("gradientDirection", "vertical")
-                      }
-                      className={`px-2.5 py-1.5 text-xs rounded transition-colors ${
-                        settings.gradientDirection === "vertical"
-                          ? "bg-indigo-500 text-white"
-                          : "bg-gray-700/50 hover:bg-gray-600 text-gray-300"
-                      }`}
-                    >
-                      Vertical
-                    </button>
+                  <div className="space-y-2.5 pt-1">
+                    <div className="grid grid-cols-4 gap-1.5">
+                      {renderGradientTypeButton("linear", "Linear")}
+                      {renderGradientTypeButton("radial", "Radial")}
+                      {renderGradientTypeButton("conic", "Conic")}
+                      {renderGradientTypeButton("luminance", "Tone")}
+                    </div>
+                    {(gradientType === "linear" ||
+                      gradientType === "conic") && (
+                      <Slider
+                        label="Angle"
+                        value={
+                          settings.gradientAngle ??
+                          (settings.gradientDirection === "vertical" ? 90 : 0)
+                        }
+                        min={0}
+                        max={360}
+                        step={1}
+                        onChange={(e) =>
+                          onSettingsChange(
+                            "gradientAngle",
+                            parseFloat(e.target.value)
+                          )
+                        }
+                      />
+                    )}
+                    {(gradientType === "radial" ||
+                      gradientType === "conic") && (
+                      <>
+                        <Slider
+                          label="Center X"
+                          value={gradientCenter.x}
+                          min={0}
+                          max={1}
+                          step={0.01}
+                          onChange={(e) =>
+                            onSettingsChange("gradientCenter", {
+                              ...gradientCenter,
+                              x: parseFloat(e.target.value),
+                            })
+                          }
+                        />
+                        <Slider
+                          label="Center Y"
+                          value={gradientCenter.y}
+                          min={0}
+                          max={1}
+                          step={0.01}
+                          onChange={(e) =>
+                            onSettingsChange("gradientCenter", {
+                              ...gradientCenter,
+                              y: parseFloat(e.target.value),
+                            })
+                          }
+                        />
+                      </>
+                    )}
+                    <div className="grid grid-cols-5 gap-1">
+                      {renderColorSpaceButton("srgb", "sRGB")}
+                      {renderColorSpaceButton("linear-rgb", "Linear")}
+                      {renderColorSpaceButton("oklab", "OKLab")}
+                      {renderColorSpaceButton("oklch", "OKLCH")}
+                      {renderColorSpaceButton("hsl", "HSL")}
+                    </div>
+                    {(gradientSpace === "oklch" || gradientSpace === "hsl") && (
+                      <div className="grid grid-cols-2 gap-2">
+                        {renderHueButton("shorter", "Shorter Hue")}
+                        {renderHueButton("longer", "Longer Hue")}
+                      </div>
+                    )}
+                    <div
+                      className="h-3 rounded border border-gray-600"
+                      style={{
+                        // Preview: Sampled like the dots, so every color space shows as rendered
+                        background: `linear-gradient(to right, ${Array.from(
+                          { length: GRADIENT_PREVIEW_STEPS + 1 },
+                          (_, i) =>
+                            sampleGradientStops(
+                              sortedStops,
+                              i / GRADIENT_PREVIEW_STEPS,
+                              gradientSpace,
+                              gradientHue
+                            )
+                        ).join(", ")})`,
+                      }}
+                    />
+                    {gradientStops.map((stop, index) => (
+                      <div key={index} className="space-y-1">
+                        <div className="flex items-center gap-2">
+                          <input
+                            type="color"
+                            value={stop.color}
+                            onChange={(e) =>
+                              updateGradientStop(index, {
+                                color: e.target.value,
+                              })
+                            }
+                            className="w-5 h-5 p-0 border border-gray-600/50 rounded cursor-pointer bg-transparent"
+                          />
+                          <input
+                            type="text"
+                            value={stop.color}
+                            onChange={(e) =>
+                              updateGradientStop(index, {
+                                color: e.target.value,
+                              })
+                            }
+                            className="flex-1 bg-gray-700/50 border border-gray-600/50 rounded px-2 py-1 text-xs text-white font-mono focus:outline-none focus:border-indigo-500/50 focus:ring-1 focus:ring-indigo-500/30"
+                          />
+                          {gradientStops.length > 2 && (
+                            <button
+                              onClick={() =>
+                                onSettingsChange(
+                                  "gradientStops",
+                                  gradientStops.filter((_, i) => i !== index)
+                                )
+                              }
+                              className="px-2 py-1 text-xs rounded bg-gray-700/50 hover:bg-gray-600 text-gray-300 transition-colors"
+                            >
+                              Remove
+                            </button>
+                          )}
+                        </div>
+                        <Slider
+                          label="Position"
+                          value={stop.offset}
+                          min={0}
+                          max={1}
+                          step={0.01}
+                          onChange={(e) =>
+                            updateGradientStop(index, {
+                              offset: parseFloat(e.target.value),
+                            })
+                          }
+                        />
+                      </div>
+                    ))}
                     <button
-                      onClick={() =>
-                        onSettingsChange("gradientDirection", "horizontal")
-                      }
-                      className={`px-2.5 py-1.5 text-xs rounded transition-colors ${
-                        settings.gradientDirection === "horizontal"
-                          ? "bg-indigo-500 text-white"
-                          : "bg-gray-700/50 hover:bg-gray-600 text-gray-300"
-                      }`}
+                      onClick={addGradientStop}
+                      className="w-full px-2 py-1.5 text-xs rounded bg-gray-700/50 hover:bg-gray-600 text-gray-300 transition-colors"
                     >
-                      Horizontal
+                      Add Stop
                     </button>
                   </div>
                 )}
@@ -408,6 +1587,24 @@ export const ControlsPanel: React.FC<ControlsPanelProps> = ({
                 >
                   Copy as SVG
                 </button>
+                {settings.method === "ascii" && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <button
+                      onClick={onCopyText}
+                      disabled={!hasImage || !onCopyText}
+                      className="flex items-center justify-center bg-gray-700/50 hover:bg-gray-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-medium py-2 px-3 rounded text-xs transition-colors"
+                    >
+                      Copy as Text
+                    </button>
+                    <button
+                      onClick={onExportHtml}
+                      disabled={!hasImage || !onExportHtml}
+                      className="flex items-center justify-center bg-gray-700/50 hover:bg-gray-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-medium py-2 px-3 rounded text-xs transition-colors"
+                    >
+                      Export HTML
+                    </button>
+                  </div>
+                )}
               </div>
             </CollapsibleSection>
           </>
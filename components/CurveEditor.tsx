@@ -0,0 +1,124 @@
+import React, { useMemo, useRef, useState } from "react";
+import { CurvePoint } from "../types";
+import { createCurveEvaluator } from "../core/src/utils/tone";
+
+interface CurveEditorProps {
+  points: CurvePoint[];
+  onChange: (points: CurvePoint[]) => void;
+}
+
+const SIZE = 100;
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+export const CurveEditor: React.FC<CurveEditorProps> = ({
+  points,
+  onChange,
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  // Curve preview: Sample the same evaluator core uses so the widget matches the output
+  const curvePath = useMemo(() => {
+    const evaluate = createCurveEvaluator(points);
+    const steps = 64;
+    let path = "";
+    for (let i = 0; i <= steps; i++) {
+      const x = i / steps;
+      const y = evaluate(x);
+      path += `${i === 0 ? "M" : "L"}${(x * SIZE).toFixed(2)},${(
+        (1 - y) *
+        SIZE
+      ).toFixed(2)}`;
+    }
+    return path;
+  }, [points]);
+
+  // Coordinate conversion: Map a pointer position to curve space [0-1]
+  const toCurvePoint = (event: React.PointerEvent | React.MouseEvent) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0 || rect.height === 0) return null;
+    return {
+      x: clamp01((event.clientX - rect.left) / rect.width),
+      y: clamp01(1 - (event.clientY - rect.top) / rect.height),
+    };
+  };
+
+  // Point dragging: Endpoints only move vertically, inner points stay between their neighbours
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (dragIndex === null) return;
+    const next = toCurvePoint(event);
+    if (!next) return;
+    const isEndpoint = dragIndex === 0 || dragIndex === points.length - 1;
+    const x = isEndpoint
+      ? points[dragIndex].x
+      : Math.min(
+          points[dragIndex + 1].x - 0.01,
+          Math.max(points[dragIndex - 1].x + 0.01, next.x)
+        );
+    onChange(
+      points.map((point, i) => (i === dragIndex ? { x, y: next.y } : point))
+    );
+  };
+
+  // Point insertion: Double-click empty space to add a control point
+  const handleDoubleClick = (event: React.MouseEvent<SVGSVGElement>) => {
+    const next = toCurvePoint(event);
+    if (!next) return;
+    onChange([...points, next].sort((a, b) => a.x - b.x));
+  };
+
+  // Point removal: Double-click an inner point to delete it
+  const removePoint = (index: number) => {
+    if (index === 0 || index === points.length - 1) return;
+    onChange(points.filter((_, i) => i !== index));
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${SIZE} ${SIZE}`}
+      className="w-full aspect-square bg-gray-900/60 rounded border border-gray-700/50 touch-none select-none"
+      onPointerMove={handlePointerMove}
+      onPointerUp={() => setDragIndex(null)}
+      onPointerLeave={() => setDragIndex(null)}
+      onDoubleClick={handleDoubleClick}
+      data-testid="curve-editor"
+    >
+      {[25, 50, 75].map((t) => (
+        <g key={t} stroke="#374151" strokeWidth={0.5}>
+          <line x1={t} y1={0} x2={t} y2={SIZE} />
+          <line x1={0} y1={t} x2={SIZE} y2={t} />
+        </g>
+      ))}
+      <line
+        x1={0}
+        y1={SIZE}
+        x2={SIZE}
+        y2={0}
+        stroke="#4b5563"
+        strokeWidth={0.5}
+        strokeDasharray="2 2"
+      />
+      <path d={curvePath} fill="none" stroke="#818cf8" strokeWidth={1.5} />
+      {points.map((point, i) => (
+        <circle
+          key={i}
+          cx={point.x * SIZE}
+          cy={(1 - point.y) * SIZE}
+          r={3}
+          className="fill-white stroke-indigo-500 cursor-pointer"
+          strokeWidth={1}
+          onPointerDown={(event) => {
+            event.stopPropagation();
+            (event.target as Element).setPointerCapture?.(event.pointerId);
+            setDragIndex(i);
+          }}
+          onDoubleClick={(event) => {
+            event.stopPropagation();
+            removePoint(i);
+          }}
+        />
+      ))}
+    </svg>
+  );
+};
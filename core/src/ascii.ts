@@ -0,0 +1,222 @@
+import { Dot, HalftoneSettings } from "./types";
+import { adjustColor } from "./utils/color";
+import { createGradientColorizer } from "./utils/gradient";
+import {
+  createAlphaMap,
+  createCellSampler,
+  createLuminanceMap,
+  createRgbMaps,
+} from "./utils/sampling";
+import { createToneMapper } from "./utils/tone";
+
+/**
+ * ============================================================================
+ * ASCII ART GENERATION
+ * ============================================================================
+ * Replaces dots with characters picked from a luminance ramp.
+ * Groups related functionality:
+ * - Character grid sized for monospace glyphs at a fixed font size
+ * - Per-cell ramp lookup from luminance, tone and invert
+ * - Plain text and HTML <pre> export of the generated characters
+ */
+
+export const DEFAULT_ASCII_RAMP = " .:-=+*#%@";
+// Monospace glyph advance as a fraction of the font size
+const CHAR_ASPECT = 0.6;
+
+export interface AsciiGrid {
+  cols: number;
+  rows: number;
+  cellWidth: number;
+  cellHeight: number; // also the font size
+}
+
+// Character grid: resolution sets the columns; rows are taller than wide so
+// monospace glyphs tile the frame without gaps
+export const createAsciiGrid = (
+  width: number,
+  height: number,
+  resolution: number
+): AsciiGrid => {
+  const cols = Math.max(1, Math.round(resolution));
+  const cellWidth = width / cols;
+  const rows = Math.max(1, Math.round(height / (cellWidth / CHAR_ASPECT)));
+  return { cols, rows, cellWidth, cellHeight: height / rows };
+};
+
+export const generateAsciiDots = (
+  pixelData: Uint8ClampedArray,
+  width: number,
+  height: number,
+  settings: HalftoneSettings
+): Dot[] => {
+  const {
+    resolution,
+    invert,
+    useGradient,
+    color1,
+    samplingMode = "center",
+    tone,
+    alphaMask = false,
+    alphaThreshold = 0.5,
+    colorMode = "palette",
+    colorSaturation = 1,
+    colorLevels = 0,
+    asciiRamp = DEFAULT_ASCII_RAMP,
+  } = settings;
+  const ramp = Array.from(asciiRamp || DEFAULT_ASCII_RAMP);
+  const { cols, rows, cellWidth, cellHeight } = createAsciiGrid(
+    width,
+    height,
+    resolution
+  );
+
+  const sampleCell = createCellSampler(
+    createLuminanceMap(
+      pixelData,
+      width,
+      height,
+      settings.luminanceModel,
+      settings.keyColor
+    ),
+    width,
+    height,
+    samplingMode
+  );
+  const sampleAlpha =
+    alphaMask &&
+    createCellSampler(
+      createAlphaMap(pixelData, width, height),
+      width,
+      height,
+      "average"
+    );
+  const rgb = colorMode === "image" && createRgbMaps(pixelData, width, height);
+  const colorSamplers =
+    rgb &&
+    [rgb.r, rgb.g, rgb.b].map((map) =>
+      createCellSampler(map, width, height, "average")
+    );
+  const toneMapper = tone
+    ? createToneMapper(tone)
+    : (luminance: number) => luminance;
+  const gradientColorAt =
+    useGradient && createGradientColorizer(settings, width, height);
+
+  const dots: Dot[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const x = col * cellWidth;
+      const y = row * cellHeight;
+      const x1 = x + cellWidth;
+      const y1 = y + cellHeight;
+      if (sampleAlpha && sampleAlpha(x, y, x1, y1) < alphaThreshold) continue;
+
+      // Ramp lookup: Brighter cells (like larger dots) take later, denser characters
+      const luminance = toneMapper(sampleCell(x, y, x1, y1));
+      const level = Math.max(
+        0,
+        Math.min(1, invert ? 1 - luminance : luminance)
+      );
+      const char =
+        ramp[Math.min(ramp.length - 1, Math.floor(level * ramp.length))];
+      // Blank cells: Nothing to draw; text export fills them back in from the grid
+      if (!char.trim()) continue;
+
+      let color = color1;
+      if (colorSamplers) {
+        const [r, g, b] = colorSamplers.map(
+          (sample) => sample(x, y, x1, y1) * 255
+        );
+        color = adjustColor(r, g, b, colorSaturation, colorLevels);
+      } else if (gradientColorAt) {
+        // Gradient position: The cell's top-left corner, as on the dot screen
+        color = gradientColorAt(x, y, level);
+      }
+
+      dots.push({
+        x: x + cellWidth / 2,
+        y: y + cellHeight / 2,
+        // Glyph size: Text renderers draw characters at 3x the dot size
+        size: cellHeight / 3,
+        color,
+        char,
+      });
+    }
+  }
+  return dots;
+};
+
+// Character rows: Place each dot's character back on the grid it came from
+const createAsciiRows = (
+  dots: Dot[],
+  width: number,
+  height: number,
+  settings: HalftoneSettings
+): (Dot | null)[][] => {
+  const { cols, rows, cellWidth, cellHeight } = createAsciiGrid(
+    width,
+    height,
+    settings.resolution
+  );
+  const grid: (Dot | null)[][] = Array.from({ length: rows }, () =>
+    new Array(cols).fill(null)
+  );
+  dots.forEach((dot) => {
+    if (!dot.char) return;
+    const row = Math.min(rows - 1, Math.floor(dot.y / cellHeight));
+    const col = Math.min(cols - 1, Math.floor(dot.x / cellWidth));
+    grid[row][col] = dot;
+  });
+  return grid;
+};
+
+// Plain text export: One line per character row, blank cells as spaces
+export const generateAsciiText = (
+  dots: Dot[],
+  width: number,
+  height: number,
+  settings: HalftoneSettings
+): string =>
+  createAsciiRows(dots, width, height, settings)
+    .map((row) => row.map((dot) => dot?.char ?? " ").join(""))
+    .join("\n");
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+// HTML export: A monospace <pre> at the canvas font size; characters only get their
+// own color spans when the colors vary (gradients, image colors)
+export const generateAsciiHtml = (
+  dots: Dot[],
+  width: number,
+  height: number,
+  settings: HalftoneSettings
+): string => {
+  const { cellHeight } = createAsciiGrid(width, height, settings.resolution);
+  const colors = new Set(dots.map((dot) => dot.color));
+  const [baseColor = settings.color1] = colors;
+  const spans = colors.size > 1;
+  // Paper: Dense characters mark bright areas, so the art reads on black unless inverted
+  const background = settings.invert ? "#ffffff" : "#000000";
+
+  const body = createAsciiRows(dots, width, height, settings)
+    .map((row) =>
+      row
+        .map((dot) => {
+          if (!dot?.char) return " ";
+          const char = escapeHtml(dot.char);
+          return spans
+            ? `<span style="color:${dot.color}">${char}</span>`
+            : char;
+        })
+        .join("")
+    )
+    .join("\n");
+
+  return `<pre style="margin:0;font-family:monospace;font-size:${cellHeight.toFixed(
+    2
+  )}px;line-height:${cellHeight.toFixed(
+    2
+  )}px;color:${baseColor};background:${background}">${body}</pre>`;
+};
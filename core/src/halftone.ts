@@ -1,5 +1,43 @@
-import { HalftoneSettings, Dot, AnimationSettings } from "./types";
-import { lerpColor } from "./utils/color";
+import {
+  HalftoneSettings,
+  Dot,
+  DotLayer,
+  CmykPlate,
+  AnimationSettings,
+  DotShape,
+} from "./types";
+import {
+  adjustColor,
+  createInkMatcher,
+  inkLayer,
+  resolvePalette,
+} from "./utils/color";
+import { createGradientColorizer } from "./utils/gradient";
+import {
+  CellSampler,
+  createAlphaMap,
+  createCellSampler,
+  createCmykMaps,
+  createLuminanceMap,
+  createRgbMaps,
+} from "./utils/sampling";
+import { createGridCells, GridCell } from "./utils/grid";
+import { generateStippleDots } from "./stipple";
+import { generateScreenLines } from "./lineScreen";
+import { generateAsciiDots } from "./ascii";
+import { createPoissonCells } from "./utils/poisson";
+import { createQuadtreeCells } from "./utils/quadtree";
+import { diffuseErrors, posterizeLevel } from "./utils/dither";
+import { createDotSizeAdjuster } from "./utils/dotGain";
+import { createEdgeMap, EDGE_LAYER, traceEdgePoints } from "./utils/edges";
+import { createRandom, DEFAULT_SEED } from "./utils/random";
+import { createToneMapper } from "./utils/tone";
+import {
+  createEuclideanDotPath,
+  createShapePolygon,
+  formatPolygonPath,
+  STAMP_SYMBOL_ID,
+} from "./utils/shapes";
 
 /**
  * ============================================================================
@@ -7,86 +45,433 @@ import { lerpColor } from "./utils/color";
  * ============================================================================
  * Core algorithm for converting image pixel data into halftone dot patterns.
  * Groups related functionality:
- * - Grid calculation and cell sizing
- * - Pixel sampling and luminance calculation
- * - Dot size computation based on brightness
- * - Position randomization
+ * - Grid layout (square, hex, brick, diamond) with optional screen rotation
+ * - Concentric ring and spiral layouts around a configurable center
+ * - Poisson-disk (blue-noise) placement with luminance-driven density
+ * - Adaptive quadtree cells that shrink where the image is busy
+ * - Luminance model selection (BT.601/709, L*, single channel, saturation, key hue)
+ * - Cell sampling (center, box average, Gaussian, max/min)
+ * - Alpha masking and coverage for transparent images
+ * - Image-sampled dot colors for full-color halftones
+ * - Tone adjustment (levels, brightness, contrast, gamma, curve)
+ * - Dot size computation based on brightness (amplitude modulation)
+ * - Euclidean dots that morph from round to square to inverted round
+ * - Error-diffusion dithering (frequency modulation)
+ * - Weighted Voronoi stippling (see stipple.ts)
+ * - Line screens with variable-width strokes (see lineScreen.ts)
+ * - Position randomization (seeded, so output is reproducible)
  * - Color gradient application
+ * - CMYK color separation into per-plate screens
  */
 
-export const generateDotsData = (
-  pixelData: Uint8ClampedArray,
+// Default plates: Classic print screen angles, yellow at 0° where moiré is least visible
+export const DEFAULT_CMYK_PLATES: CmykPlate[] = [
+  { channel: "cyan", color: "#00ffff", screenAngle: 15, enabled: true },
+  { channel: "magenta", color: "#ff00ff", screenAngle: 75, enabled: true },
+  { channel: "yellow", color: "#ffff00", screenAngle: 0, enabled: true },
+  { channel: "black", color: "#000000", screenAngle: 45, enabled: true },
+];
+
+// Screen sources: Optional per-pixel maps besides the value map that drives dot size
+interface ScreenSources {
+  alpha?: Float32Array;
+  rgb?: { r: Float32Array; g: Float32Array; b: Float32Array };
+  edges?: Float32Array;
+  palette?: string[];
+}
+
+// Screen generation: Dots driven by a per-pixel value map [0-1], either
+// amplitude-modulated (size follows value) or error-diffused (fixed size, presence follows value)
+const generateScreenDots = (
+  values: Float32Array,
   width: number,
   height: number,
-  settings: HalftoneSettings
+  settings: HalftoneSettings,
+  sources: ScreenSources = {}
 ): Dot[] => {
   const {
     resolution,
     dotSize,
+    dotShape,
+    angle,
     invert,
     useGradient,
-    gradientDirection,
     randomness,
     color1,
-    color2,
+    samplingMode = "center",
+    screenAngle = 0,
+    gridType = "square",
+    layoutCenter,
+    adaptiveMinDepth,
+    adaptiveMaxDepth,
+    adaptiveThreshold,
+    method = "amplitude",
+    diffusionKernel = "floyd-steinberg",
+    seed = DEFAULT_SEED,
+    tone,
+    alphaMask = false,
+    alphaThreshold = 0.5,
+    alphaCoverage = false,
+    colorSaturation = 1,
+    colorLevels = 0,
+    sizeLevels = 0,
+    sizeLevelDither = false,
+    edgeMode = "none",
+    edgeStrength = 0.5,
   } = settings;
+  const { alpha, rgb, edges, palette } = sources;
 
   const dots: Dot[] = [];
+  const random = createRandom(seed);
+  const isPoisson = gridType === "poisson";
+  // Free layouts: Cells that don't sit on a regular lattice can't diffuse errors to
+  // neighbours; radial layouts number rings and steps, not spatial rows and columns
+  const hasLattice =
+    !isPoisson &&
+    gridType !== "adaptive" &&
+    gridType !== "concentric" &&
+    gridType !== "spiral";
+  const sampleCell = createCellSampler(values, width, height, samplingMode);
+
+  // Tone adjustment: Levels, brightness, contrast, gamma and curve on sampled luminance
+  const toneMapper = tone
+    ? createToneMapper(tone)
+    : (luminance: number) => luminance;
+
+  // Cell level: Sampled, tone-mapped and optionally inverted value of a rectangle
+  const levelAt: CellSampler = (x0, y0, x1, y1) => {
+    const luminance = toneMapper(sampleCell(x0, y0, x1, y1));
+    return invert ? 1 - luminance : luminance;
+  };
+
+  // Alpha handling: Drop mostly transparent cells and keep each remaining cell's opacity
+  const sampleAlpha =
+    alpha && createCellSampler(alpha, width, height, "average");
+  const cells: GridCell[] = [];
+  const opacities: number[] = [];
+
+  // Grid calculation: Lay out (optionally rotated) screen cells over the frame,
+  // scatter them by Poisson-disk sampling with density following the level,
+  // or split busy areas of the grid into smaller cells
+  const spacing = width / resolution;
+  let layoutCells: GridCell[];
+  if (isPoisson) {
+    layoutCells = createPoissonCells(width, height, {
+      resolution,
+      random,
+      density: (x, y) =>
+        levelAt(
+          x - spacing / 2,
+          y - spacing / 2,
+          x + spacing / 2,
+          y + spacing / 2
+        ),
+    });
+  } else if (gridType === "adaptive") {
+    layoutCells = createQuadtreeCells(values, width, height, {
+      resolution,
+      minDepth: adaptiveMinDepth,
+      maxDepth: adaptiveMaxDepth,
+      threshold: adaptiveThreshold,
+      edges: edgeMode === "placement" ? edges : undefined,
+      edgeWeight: edgeStrength,
+    });
+  } else {
+    layoutCells = createGridCells(width, height, {
+      resolution,
+      screenAngle,
+      gridType,
+      center: layoutCenter,
+    });
+  }
+  layoutCells.forEach((cell) => {
+    const x = cell.x - cell.width / 2;
+    const y = cell.y - cell.height / 2;
+    const opacity = sampleAlpha
+      ? sampleAlpha(x, y, x + cell.width, y + cell.height)
+      : 1;
+    if (alphaMask && opacity < alphaThreshold) return;
+    cells.push(cell);
+    opacities.push(opacity);
+  });
+
+  // Edge boost: Cells touching an edge move toward a full dot by the edge strength
+  const sampleEdge =
+    edges &&
+    edgeMode === "boost" &&
+    createCellSampler(edges, width, height, "max");
+
+  // Cell sampling: Reduce the pixels covered by each cell to one value
+  const levels = new Float32Array(cells.length);
+  cells.forEach((cell, i) => {
+    const x = cell.x - cell.width / 2;
+    const y = cell.y - cell.height / 2;
+    const level = levelAt(x, y, x + cell.width, y + cell.height);
+    levels[i] = sampleEdge
+      ? level +
+        edgeStrength *
+          sampleEdge(x, y, x + cell.width, y + cell.height) *
+          (1 - level)
+      : level;
+  });
+
+  // Error diffusion: Quantize cells to on/off so dot density carries the tone
+  const coverage =
+    method === "diffusion" && hasLattice
+      ? diffuseErrors(levels, cells, diffusionKernel)
+      : levels;
+
+  // Color sampling: Box-average each RGB channel when dots take the image's color
+  const colorSamplers =
+    rgb &&
+    [rgb.r, rgb.g, rgb.b].map((map) =>
+      createCellSampler(map, width, height, "average")
+    );
+
+  // Ink matching: With a palette each dot takes the ink nearest its cell's color
+  const matchInk = palette && palette.length > 0 && createInkMatcher(palette);
 
-  // Grid calculation: Create resolution-based grid maintaining aspect ratio
-  const cols = resolution;
-  const rows = Math.round(cols * (height / width));
-  const cellWidth = width / cols;
-  const cellHeight = height / rows;
+  // Gradient: Color by position or tone level along the gradient stops
+  const gradientColorAt =
+    useGradient && createGradientColorizer(settings, width, height);
+
+  // Print adjustments: Dot gain compensation and physical size clamps
+  const adjustSize = createDotSizeAdjuster(settings, width);
 
   // Iterate through grid cells to generate dots
-  for (let r = 0; r < rows; r++) {
-    for (let c = 0; c < cols; c++) {
-      const x = c * cellWidth;
-      const y = r * cellHeight;
-
-      // Pixel sampling: Sample center pixel of each cell for color data
-      const sampleX = Math.floor(x + cellWidth / 2);
-      const sampleY = Math.floor(y + cellHeight / 2);
-
-      const pixelIndex = (sampleY * width + sampleX) * 4;
-      const red = pixelData[pixelIndex];
-      const green = pixelData[pixelIndex + 1];
-      const blue = pixelData[pixelIndex + 2];
-
-      // Luminance calculation: Convert RGB to perceived brightness using ITU-R BT.601
-      let luminance = (0.299 * red + 0.587 * green + 0.114 * blue) / 255;
-      if (invert) {
-        luminance = 1 - luminance;
-      }
+  cells.forEach((cell, i) => {
+    const { width: cellWidth, height: cellHeight } = cell;
+    const x = cell.x - cellWidth / 2;
+    const y = cell.y - cellHeight / 2;
 
-      // Dot size computation: Scale dot size based on luminance (brighter = larger)
-      const baseSize = (Math.min(cellWidth, cellHeight) / 2) * dotSize;
-      const size = baseSize * luminance;
+    // Position randomization: Add organic variation to dot positions
+    // (skipped for Poisson placement so its minimum spacing holds)
+    const jitter = isPoisson ? 0 : randomness;
+    const randX = (random() - 0.5) * jitter * cellWidth;
+    const randY = (random() - 0.5) * jitter * cellHeight;
 
-      // Position randomization: Add organic variation to dot positions
-      const randX = (Math.random() - 0.5) * randomness * cellWidth;
-      const randY = (Math.random() - 0.5) * randomness * cellHeight;
+    // Dot size computation: Scale dot size based on luminance (brighter = larger)
+    // (snapped to discrete sizes when posterized, then adjusted for print; the gap
+    // clamp allows for the farthest the jitter can move the dot)
+    const baseSize = (cell.pitch / 2) * dotSize;
+    const fraction = coverage[i] * (alphaCoverage ? opacities[i] : 1);
+    const size = adjustSize(
+      sizeLevels > 0
+        ? posterizeLevel(
+            fraction,
+            sizeLevels,
+            sizeLevelDither,
+            cell.row,
+            cell.col
+          )
+        : fraction,
+      baseSize,
+      cell.pitch,
+      (jitter / 2) * Math.hypot(cellWidth, cellHeight)
+    );
 
-      // Color gradient application: Interpolate between colors based on position
-      let color = color1;
-      if (useGradient) {
-        const gradientPos =
-          gradientDirection === "vertical" ? y / height : x / width;
-        color = lerpColor(color1, color2, gradientPos);
+    // Color gradient application: Interpolate between colors based on position
+    let color = color1;
+    let layer: string | undefined;
+    if (colorSamplers) {
+      // Image color: Averaged source color of the cell, or its nearest ink
+      const [r, g, b] = colorSamplers.map(
+        (sample) => sample(x, y, x + cellWidth, y + cellHeight) * 255
+      );
+      if (matchInk) {
+        const ink = matchInk(r, g, b);
+        color = palette[ink];
+        layer = inkLayer(ink);
+      } else {
+        color = adjustColor(r, g, b, colorSaturation, colorLevels);
       }
+    } else if (gradientColorAt) {
+      // Gradient position: Sampled at the cell's top-left corner, as the two-color
+      // gradient always was, so existing renders keep their colors
+      color = gradientColorAt(x, y, levels[i]);
+    }
 
-      dots.push({
-        x: x + cellWidth / 2 + randX,
-        y: y + cellHeight / 2 + randY,
-        size,
-        color,
-      });
+    const dot: Dot = {
+      x: cell.x + randX,
+      y: cell.y + randY,
+      size,
+      color,
+    };
+    if (layer) dot.layer = layer;
+
+    // Euclidean dot: Geometry morphs with coverage, so the outline is computed here
+    // and rotated with the screen; renderers draw the path as-is
+    if (dotShape === "euclidean") {
+      dot.path = createEuclideanDotPath(
+        dot.x,
+        dot.y,
+        cell.pitch,
+        size / (cell.pitch / 2),
+        angle + screenAngle
+      );
     }
-  }
+    dots.push(dot);
+  });
   return dots;
 };
 
+// Edge outline: Small dots traced along edges at twice the screen frequency, on their
+// own layer so renderers can composite them over the screen
+const createEdgeOutlineDots = (
+  edges: Float32Array,
+  width: number,
+  height: number,
+  settings: HalftoneSettings
+): Dot[] => {
+  const {
+    resolution,
+    dotSize,
+    dotShape,
+    angle,
+    color1,
+    screenAngle = 0,
+    edgeStrength = 0.5,
+    edgeThreshold = 0.25,
+  } = settings;
+  const spacing = width / resolution / 2;
+  const size = (spacing / 2) * dotSize * edgeStrength;
+  return traceEdgePoints(edges, width, height, spacing, edgeThreshold).map(
+    ({ x, y }) => {
+      const dot: Dot = { x, y, size, color: color1, layer: EDGE_LAYER };
+      if (dotShape === "euclidean") {
+        dot.path = createEuclideanDotPath(
+          x,
+          y,
+          spacing,
+          size / (spacing / 2),
+          angle + screenAngle
+        );
+      }
+      return dot;
+    }
+  );
+};
+
+// Alpha map: Only extracted when transparency affects the output
+const createAlphaMapFor = (
+  pixelData: Uint8ClampedArray,
+  width: number,
+  height: number,
+  settings: HalftoneSettings
+): Float32Array | undefined => {
+  const { alphaMask = false, alphaCoverage = false } = settings;
+  return alphaMask || alphaCoverage
+    ? createAlphaMap(pixelData, width, height)
+    : undefined;
+};
+
+export const generateDotsData = (
+  pixelData: Uint8ClampedArray,
+  width: number,
+  height: number,
+  settings: HalftoneSettings
+): Dot[] => {
+  // Color separation: Flatten plates in print order, each dot tagged with its layer
+  if (settings.separation === "cmyk") {
+    return generateCmykLayers(pixelData, width, height, settings).flatMap(
+      (layer) => layer.dots
+    );
+  }
+
+  // Line screen: Variable-width strokes instead of dots
+  if (settings.lineStyle && settings.lineStyle !== "none") {
+    return generateScreenLines(pixelData, width, height, settings);
+  }
+
+  // Stippling: Free-floating dots relaxed toward the image instead of a screen
+  if (settings.method === "stipple") {
+    return generateStippleDots(pixelData, width, height, settings);
+  }
+
+  // ASCII art: Characters from the luminance ramp on a monospace grid
+  if (settings.method === "ascii") {
+    return generateAsciiDots(pixelData, width, height, settings);
+  }
+
+  // Luminance calculation: Convert each pixel to the configured luminance model
+  // once, so every cell sampler can read from the same map
+  const luminanceMap = createLuminanceMap(
+    pixelData,
+    width,
+    height,
+    settings.luminanceModel,
+    settings.keyColor
+  );
+  // Edge detection: Shared by the boost, placement and outline modes
+  const { edgeMode = "none" } = settings;
+  const edges =
+    edgeMode !== "none"
+      ? createEdgeMap(
+          luminanceMap,
+          width,
+          height,
+          settings.edgeDetector,
+          settings.edgeThreshold
+        )
+      : undefined;
+
+  const { colorMode = "palette" } = settings;
+  const dots = generateScreenDots(luminanceMap, width, height, settings, {
+    alpha: createAlphaMapFor(pixelData, width, height, settings),
+    rgb:
+      colorMode === "image" || colorMode === "inks"
+        ? createRgbMaps(pixelData, width, height)
+        : undefined,
+    edges,
+    palette:
+      colorMode === "inks" ? resolvePalette(pixelData, settings) : undefined,
+  });
+  return edges && edgeMode === "outline"
+    ? dots.concat(createEdgeOutlineDots(edges, width, height, settings))
+    : dots;
+};
+
+// CMYK separation: One screen per enabled plate, ink coverage drives dot size
+export const generateCmykLayers = (
+  pixelData: Uint8ClampedArray,
+  width: number,
+  height: number,
+  settings: HalftoneSettings
+): DotLayer[] => {
+  const { cmykPlates = DEFAULT_CMYK_PLATES } = settings;
+  const channelMaps = createCmykMaps(pixelData, width, height);
+  const alpha = createAlphaMapFor(pixelData, width, height, settings);
+
+  return cmykPlates
+    .filter((plate) => plate.enabled)
+    .map((plate) => {
+      const lightness = channelMaps[plate.channel].map(
+        (coverage) => 1 - coverage
+      );
+      const dots = generateScreenDots(
+        lightness,
+        width,
+        height,
+        {
+          ...settings,
+          // Plates are screened as lightness so tone adjustments behave as on the
+          // luminance path; flipping invert makes more ink mean a larger dot
+          invert: !settings.invert,
+          screenAngle: plate.screenAngle,
+          useGradient: false,
+          color1: plate.color,
+        },
+        { alpha }
+      ).map((dot) => ({ ...dot, layer: plate.channel }));
+      return {
+        id: plate.channel,
+        color: plate.color,
+        blendMode: "multiply" as const,
+        dots,
+      };
+    });
+};
+
 /**
  * ============================================================================
  * SVG GENERATION WITH ANIMATION
@@ -98,8 +483,40 @@ export const generateDotsData = (
  * - CSS keyframe generation for organic pulse
  * - SVG element generation for different dot shapes
  * - Position-based animation timing variation
+ * - Per-plate grouping for layered (separated) dot sets
  */
 
+// Level shape: Markup of a sized shape around the origin, for shapes whose geometry
+// depends only on the dot size; null for paths, glyphs and stamps
+const createLevelShape = (
+  dotShape: DotShape,
+  size: number,
+  ellipseAspect: number,
+  starPoints?: number
+): string | null => {
+  const s = size.toFixed(2);
+  switch (dotShape) {
+    case "round":
+      return `<circle r="${s}"/>`;
+    case "square":
+      return `<rect x="-${s}" y="-${s}" width="${(size * 2).toFixed(
+        2
+      )}" height="${(size * 2).toFixed(2)}"/>`;
+    case "ellipse":
+      return `<ellipse rx="${s}" ry="${(size * ellipseAspect).toFixed(2)}"/>`;
+    case "diamond":
+    case "triangle":
+    case "hexagon":
+    case "star":
+    case "line":
+      return `<path d="${formatPolygonPath([
+        createShapePolygon(dotShape, size, { starPoints })!,
+      ])}"/>`;
+    default:
+      return null;
+  }
+};
+
 export const generateSvgString = (
   dots: Dot[],
   width: number,
@@ -107,8 +524,22 @@ export const generateSvgString = (
   settings: HalftoneSettings,
   animationSettings?: AnimationSettings
 ): string => {
-  const { dotShape, fillPattern, color1, color2, angle, customCharacter } =
-    settings;
+  const {
+    dotShape,
+    fillPattern,
+    color1,
+    color2,
+    angle,
+    customCharacter,
+    screenAngle = 0,
+    ellipseAspect = 0.5,
+    starPoints,
+    customStamp,
+    sizeLevels = 0,
+    separation = "none",
+  } = settings;
+  // Glyph rotation: Non-round glyphs follow the screen so squares stay aligned with the lattice
+  const rotation = angle + screenAngle;
   const {
     organicPulse = true,
     pulseStrength = 0.08,
@@ -135,6 +566,51 @@ export const generateSvgString = (
 </pattern>`;
   }
 
+  // Stamp definition: The custom stamp is defined once as a symbol and reused per dot;
+  // path stamps inherit each dot's fill, bitmaps keep their own colors
+  const stamp = dotShape === "custom" ? customStamp : undefined;
+  let stampDefs = "";
+  if (stamp) {
+    const { x = 0, y = 0, width: boxWidth, height: boxHeight } = stamp;
+    // Escaping: Stamp data comes from user text or uploaded files, so it can't be
+    // allowed to close the attribute and inject markup
+    const data = stamp.data
+      .replace(/&/g, "&amp;")
+      .replace(/"/g, "&quot;")
+      .replace(/</g, "&lt;");
+    const content =
+      stamp.kind === "image"
+        ? `<image href="${data}" width="${boxWidth}" height="${boxHeight}" preserveAspectRatio="none"/>`
+        : `<path d="${data}"/>`;
+    stampDefs = `
+<symbol id="${STAMP_SYMBOL_ID}" viewBox="${x} ${y} ${boxWidth} ${boxHeight}">${content}</symbol>`;
+  }
+
+  // Level symbols: Posterized dots come in a few sizes, so each size is defined once
+  // around the origin and placed with <use> (one symbol per level on regular grids)
+  const levelSymbols = new Map<string, string>();
+  let levelDefs = "";
+  if (sizeLevels > 0 && createLevelShape(dotShape, 1, ellipseAspect)) {
+    const sizes = new Set(
+      dots
+        .filter((dot) => !dot.path && !dot.char && dot.size > 0.1)
+        .map((dot) => dot.size.toFixed(2))
+    );
+    Array.from(sizes)
+      .sort((a, b) => Number(a) - Number(b))
+      .forEach((key, i) => {
+        const id = `ht-level-${i + 1}`;
+        levelSymbols.set(key, id);
+        levelDefs += `
+<symbol id="${id}" overflow="visible">${createLevelShape(
+          dotShape,
+          Number(key),
+          ellipseAspect,
+          starPoints
+        )}</symbol>`;
+      });
+  }
+
   // Animation parameter clamping: Ensure values stay within safe ranges
   const clampedPulse = Math.max(0, Math.min(pulseStrength, 0.35));
   const clampedTempo = Math.max(0.25, Math.min(pulseTempo, 3));
@@ -169,11 +645,15 @@ ${
     opacity 260ms ease-out;
 }
 </style>
-${patternDefs}
+${patternDefs}${stampDefs}${levelDefs}
 </defs>`;
 
   // SVG element generation: Create SVG elements for each dot with shape-specific rendering
+  const layerElements = new Map<string, string>();
   dots.forEach((dot) => {
+    if (dot.layer && !layerElements.has(dot.layer)) {
+      layerElements.set(dot.layer, "");
+    }
     if (dot.size > 0.1) {
       // Avoid creating tiny invisible elements
       const fillAttr =
@@ -181,8 +661,8 @@ ${patternDefs}
           ? `fill="${dot.color}"`
           : 'fill="url(#fillPattern)"';
       const transformAttr =
-        dotShape !== "round" && angle !== 0
-          ? ` transform="rotate(${angle} ${dot.x.toFixed(2)} ${dot.y.toFixed(
+        dotShape !== "round" && !dot.char && rotation !== 0
+          ? ` transform="rotate(${rotation} ${dot.x.toFixed(2)} ${dot.y.toFixed(
               2
             )})"`
           : "";
@@ -193,7 +673,7 @@ ${patternDefs}
       const duration = (6 + normX * 2) / clampedTempo; // between 6s and 8s, slow breathing-like
       const dataAttrs = `data-x="${dot.x.toFixed(2)}" data-y="${dot.y.toFixed(
         2
-      )}"`;
+      )}" data-r="${dot.size.toFixed(2)}"`;
       const groupStyle = organicPulse
         ? ` style="animation-duration:${duration.toFixed(
             2
@@ -203,9 +683,31 @@ ${patternDefs}
       const groupClose = `</g>\n`;
 
       // Shape-specific rendering: Generate SVG elements based on dot shape type
-      switch (dotShape) {
+      // (outline paths such as line-screen strokes are drawn as-is)
+      const levelSymbol =
+        !dot.path && !dot.char && levelSymbols.get(dot.size.toFixed(2));
+      let element = "";
+      switch (
+        levelSymbol
+          ? "level"
+          : dot.path
+          ? "path"
+          : dot.char
+          ? "custom"
+          : dotShape
+      ) {
+        case "level":
+          element = `${groupOpen}<use href="#${levelSymbol}" x="${dot.x.toFixed(
+            2
+          )}" y="${dot.y.toFixed(
+            2
+          )}" ${fillAttr}${transformAttr} />${groupClose}`;
+          break;
+        case "path":
+          element = `${groupOpen}<path d="${dot.path}" ${fillAttr} />${groupClose}`;
+          break;
         case "round":
-          svgElements += `${groupOpen}<circle cx="${dot.x.toFixed(
+          element = `${groupOpen}<circle cx="${dot.x.toFixed(
             2
           )}" cy="${dot.y.toFixed(2)}" r="${dot.size.toFixed(
             2
@@ -213,31 +715,98 @@ ${patternDefs}
           break;
         case "square":
           const width = (dot.size * 2).toFixed(2);
-          svgElements += `${groupOpen}<rect x="${(dot.x - dot.size).toFixed(
+          element = `${groupOpen}<rect x="${(dot.x - dot.size).toFixed(
             2
           )}" y="${(dot.y - dot.size).toFixed(
             2
           )}" width="${width}" height="${width}" ${fillAttr}${transformAttr} />${groupClose}`;
           break;
+        case "ellipse":
+          element = `${groupOpen}<ellipse cx="${dot.x.toFixed(
+            2
+          )}" cy="${dot.y.toFixed(2)}" rx="${dot.size.toFixed(2)}" ry="${(
+            dot.size * ellipseAspect
+          ).toFixed(2)}" ${fillAttr}${transformAttr} />${groupClose}`;
+          break;
+        case "diamond":
+        case "triangle":
+        case "hexagon":
+        case "star":
+        case "line": {
+          // Polygon shapes: Outline around the dot center, rotated like the other glyphs
+          const polygon = createShapePolygon(dotShape, dot.size, {
+            starPoints,
+          })!.map(([px, py]): [number, number] => [dot.x + px, dot.y + py]);
+          element = `${groupOpen}<path d="${formatPolygonPath([
+            polygon,
+          ])}" ${fillAttr}${transformAttr} />${groupClose}`;
+          break;
+        }
         case "plus":
         case "custom": {
-          const char = dotShape === "plus" ? "+" : customCharacter || "*";
+          if (stamp && !dot.char) {
+            const side = (dot.size * 2).toFixed(2);
+            element = `${groupOpen}<use href="#${STAMP_SYMBOL_ID}" x="${(
+              dot.x - dot.size
+            ).toFixed(2)}" y="${(dot.y - dot.size).toFixed(
+              2
+            )}" width="${side}" height="${side}" ${fillAttr}${transformAttr} />${groupClose}`;
+            break;
+          }
+          const char =
+            dot.char ?? (dotShape === "plus" ? "+" : customCharacter || "*");
+          // ASCII characters share one monospace grid; glyph shapes stay bold sans-serif
+          const font = dot.char
+            ? 'font-family="monospace"'
+            : 'font-family="sans-serif" font-weight="bold"';
           const escapedChar = char
             .replace(/&/g, "&amp;")
             .replace(/</g, "&lt;")
             .replace(/>/g, "&gt;");
           const fontSize = dot.size * 3;
-          svgElements += `${groupOpen}<text x="${dot.x.toFixed(
+          element = `${groupOpen}<text x="${dot.x.toFixed(
             2
           )}" y="${dot.y.toFixed(2)}" font-size="${fontSize.toFixed(
             2
-          )}" ${fillAttr} font-family="sans-serif" font-weight="bold" text-anchor="middle" dominant-baseline="middle"${transformAttr}>${escapedChar}</text>${groupClose}`;
+          )}" ${fillAttr} ${font} text-anchor="middle" dominant-baseline="middle"${transformAttr}>${escapedChar}</text>${groupClose}`;
           break;
         }
       }
+
+      if (dot.layer) {
+        layerElements.set(dot.layer, layerElements.get(dot.layer) + element);
+      } else {
+        svgElements += element;
+      }
     }
   });
 
+  // Edge group: Outline dots sit above the screen in their own group
+  const edgeElements = layerElements.get(EDGE_LAYER);
+  layerElements.delete(EDGE_LAYER);
+
+  // Plate grouping: One multiply-blended group per separation over white paper,
+  // so each plate can be toggled or exported on its own
+  if (layerElements.size > 0 && separation === "cmyk") {
+    svgElements = `<rect width="${width}" height="${height}" fill="#ffffff" />\n${svgElements}`;
+    layerElements.forEach((elements, layer) => {
+      svgElements += `<g id="plate-${layer}" data-plate="${layer}" style="mix-blend-mode:multiply">\n${elements}</g>\n`;
+    });
+  } else {
+    // Ink grouping: One plain group per palette ink, in palette order
+    Array.from(layerElements.keys())
+      .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+      .forEach((layer) => {
+        svgElements += `<g id="${layer}" data-layer="${layer}">\n${layerElements.get(
+          layer
+        )}</g>\n`;
+      });
+  }
+
+  if (edgeElements !== undefined) {
+    svgElements += `<g id="${EDGE_LAYER}" data-layer="${EDGE_LAYER}">\n${edgeElements}</g>\n`;
+  }
+
   return `<svg width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" xmlns="http://www.w3.org/2000/svg">
 ${defs}
 ${svgElements}</svg>`;
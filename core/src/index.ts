@@ -1,4 +1,18 @@
 export * from "./types";
 export * from "./utils/color";
+export * from "./utils/sampling";
+export * from "./utils/grid";
+export * from "./utils/dither";
+export * from "./utils/dotGain";
+export * from "./utils/edges";
+export * from "./utils/gradient";
+export * from "./utils/poisson";
+export * from "./utils/quadtree";
+export * from "./utils/random";
+export * from "./utils/tone";
+export * from "./utils/shapes";
 export * from "./halftone";
+export * from "./stipple";
+export * from "./lineScreen";
+export * from "./ascii";
 export * from "./lottieExport";
@@ -0,0 +1,224 @@
+import { Dot, HalftoneSettings } from "./types";
+import { createGradientColorizer } from "./utils/gradient";
+import {
+  createAlphaMap,
+  createCellSampler,
+  createLuminanceMap,
+} from "./utils/sampling";
+import { createToneMapper } from "./utils/tone";
+
+/**
+ * ============================================================================
+ * LINE SCREEN GENERATION
+ * ============================================================================
+ * Replaces dots with continuous lines whose thickness follows the image.
+ * Groups related functionality:
+ * - Centerlines (horizontal, angled, wavy, concentric circles)
+ * - Per-sample thickness from luminance, tone and invert
+ * - Filled outline paths, split where the line thins out completely
+ */
+
+export interface LineSample {
+  x: number;
+  y: number;
+  halfWidth: number;
+}
+
+// Thickness below this (in pixels) ends a stroke segment
+const MIN_HALF_WIDTH = 0.05;
+const formatPoint = (x: number, y: number) => `${x.toFixed(2)},${y.toFixed(2)}`;
+
+// Outline path: Offset each sample along its normal on both sides, walk out along the left
+// edge and back along the right edge; thinned-out stretches split the line into subpaths
+export const createLineOutline = (samples: LineSample[]): string => {
+  const count = samples.length;
+  const isVisible = (i: number) => samples[i].halfWidth > MIN_HALF_WIDTH;
+  let path = "";
+
+  for (let start = 0; start < count; start++) {
+    if (!isVisible(start)) continue;
+    let end = start;
+    while (end + 1 < count && isVisible(end + 1)) end++;
+
+    // Tapered ends: Each segment starts and ends on its neighbouring centerline sample
+    const left: string[] = [];
+    const right: string[] = [];
+    for (
+      let i = Math.max(0, start - 1);
+      i <= Math.min(count - 1, end + 1);
+      i++
+    ) {
+      const prev = samples[Math.max(0, i - 1)];
+      const next = samples[Math.min(count - 1, i + 1)];
+      const length = Math.hypot(next.x - prev.x, next.y - prev.y) || 1;
+      const nx = -(next.y - prev.y) / length;
+      const ny = (next.x - prev.x) / length;
+      const w = isVisible(i) ? samples[i].halfWidth : 0;
+      const { x, y } = samples[i];
+      left.push(formatPoint(x + nx * w, y + ny * w));
+      right.push(formatPoint(x - nx * w, y - ny * w));
+    }
+    path += `M${left.join("L")}L${right.reverse().join("L")}Z`;
+    start = end;
+  }
+  return path;
+};
+
+export const generateScreenLines = (
+  pixelData: Uint8ClampedArray,
+  width: number,
+  height: number,
+  settings: HalftoneSettings
+): Dot[] => {
+  const {
+    resolution,
+    dotSize,
+    invert,
+    useGradient,
+    color1,
+    samplingMode = "center",
+    screenAngle = 0,
+    layoutCenter = { x: 0.5, y: 0.5 },
+    tone,
+    alphaMask = false,
+    alphaThreshold = 0.5,
+    lineStyle = "horizontal",
+    lineWaviness = 0.5,
+  } = settings;
+
+  const spacing = width / resolution;
+  const step = spacing / 4;
+
+  // Line level: Sampled, tone-mapped and optionally inverted value around a point
+  const sampleCell = createCellSampler(
+    createLuminanceMap(
+      pixelData,
+      width,
+      height,
+      settings.luminanceModel,
+      settings.keyColor
+    ),
+    width,
+    height,
+    samplingMode
+  );
+  const sampleAlpha =
+    alphaMask &&
+    createCellSampler(
+      createAlphaMap(pixelData, width, height),
+      width,
+      height,
+      "average"
+    );
+  const toneMapper = tone
+    ? createToneMapper(tone)
+    : (luminance: number) => luminance;
+
+  // Sample thickness: Full level makes neighbouring lines touch; outside the frame is empty
+  const toSample = (x: number, y: number): LineSample => {
+    if (x < 0 || x > width || y < 0 || y > height) {
+      return { x, y, halfWidth: 0 };
+    }
+    const x0 = x - spacing / 2;
+    const y0 = y - spacing / 2;
+    if (
+      sampleAlpha &&
+      sampleAlpha(x0, y0, x0 + spacing, y0 + spacing) < alphaThreshold
+    ) {
+      return { x, y, halfWidth: 0 };
+    }
+    const luminance = toneMapper(
+      sampleCell(x0, y0, x0 + spacing, y0 + spacing)
+    );
+    const level = invert ? 1 - luminance : luminance;
+    return { x, y, halfWidth: (spacing / 2) * dotSize * level };
+  };
+
+  const centerlines: LineSample[][] = [];
+  if (lineStyle === "circular") {
+    // Concentric circles: One ring per spacing around the layout center
+    const originX = layoutCenter.x * width;
+    const originY = layoutCenter.y * height;
+    const maxRadius = Math.max(
+      Math.hypot(originX, originY),
+      Math.hypot(width - originX, originY),
+      Math.hypot(originX, height - originY),
+      Math.hypot(width - originX, height - originY)
+    );
+    for (let ring = 1; ring * spacing <= maxRadius + spacing; ring++) {
+      const radius = ring * spacing;
+      const count = Math.max(8, Math.ceil((Math.PI * 2 * radius) / step));
+      const samples: LineSample[] = [];
+      for (let i = 0; i <= count; i++) {
+        const theta = (i / count) * Math.PI * 2;
+        samples.push(
+          toSample(
+            originX + radius * Math.cos(theta),
+            originY + radius * Math.sin(theta)
+          )
+        );
+      }
+      centerlines.push(samples);
+    }
+  } else {
+    // Parallel lines: Rows one spacing apart, rotated around the image center for
+    // angled and wavy screens; wavy rows swing by lineWaviness of the spacing
+    const rad = lineStyle === "horizontal" ? 0 : (screenAngle * Math.PI) / 180;
+    const cos = Math.cos(rad);
+    const sin = Math.sin(rad);
+    const centerX = width / 2;
+    const centerY = height / 2;
+    const radius = Math.hypot(width, height) / 2;
+    const amplitude = lineStyle === "wavy" ? lineWaviness * spacing : 0;
+    const wavelength = spacing * 4;
+    const rowOffset = height / spacing / 2 - 0.5;
+    const rowSpan = Math.ceil(radius / spacing) + 1;
+
+    for (
+      let row = Math.floor(rowOffset - rowSpan);
+      row <= rowOffset + rowSpan;
+      row++
+    ) {
+      const samples: LineSample[] = [];
+      for (let u = -radius; u <= radius + step / 2; u += step) {
+        const v =
+          (row - rowOffset) * spacing +
+          amplitude * Math.sin((Math.PI * 2 * u) / wavelength);
+        samples.push(
+          toSample(centerX + u * cos - v * sin, centerY + u * sin + v * cos)
+        );
+      }
+      centerlines.push(samples);
+    }
+  }
+
+  const gradientColorAt =
+    useGradient && createGradientColorizer(settings, width, height);
+  const fullHalfWidth = (spacing / 2) * dotSize;
+
+  const dots: Dot[] = [];
+  centerlines.forEach((samples) => {
+    const path = createLineOutline(samples);
+    if (!path) return;
+    const middle = samples[Math.floor(samples.length / 2)];
+
+    // Line color: Flat color, or the gradient at the line's midpoint
+    let color = color1;
+    if (gradientColorAt) {
+      color = gradientColorAt(
+        middle.x,
+        middle.y,
+        fullHalfWidth > 0 ? middle.halfWidth / fullHalfWidth : 0
+      );
+    }
+
+    dots.push({
+      x: middle.x,
+      y: middle.y,
+      size: Math.max(...samples.map((sample) => sample.halfWidth)),
+      color,
+      path,
+    });
+  });
+  return dots;
+};
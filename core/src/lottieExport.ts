@@ -1,4 +1,5 @@
 import { Dot, HalftoneSettings, AnimationSettings } from "./types";
+import { createShapePolygon, parsePolygonPath } from "./utils/shapes";
 
 /**
  * ============================================================================
@@ -11,7 +12,7 @@ import { Dot, HalftoneSettings, AnimationSettings } from "./types";
  * - Animation parameter calculation and clamping
  * - Dot filtering and sampling for file size optimization
  * - Layer generation with position-based timing variation
- * - Shape rendering (circle, square, text approximation)
+ * - Shape rendering (circle, square, ellipse, polygons, text approximation, outline paths)
  */
 
 // Color conversion: Convert hex color string to normalized RGB array [0-1]
@@ -167,6 +168,13 @@ export function generateLottieAnimation(
   // Animation cycle calculation: Use consistent cycle duration (8 seconds at 60fps)
   const cycleDurationFrames = Math.round((8 / clampedTempo) * 60);
 
+  // Line screen: Stroke outlines span the frame at their real size, so unlike
+  // Euclidean outlines they are not scaled up (same precedence as generateDotsData)
+  const hasLineScreen =
+    settings.separation !== "cmyk" &&
+    !!settings.lineStyle &&
+    settings.lineStyle !== "none";
+
   // Layer generation: Create Lottie layer for each sampled dot
   const layers = sampledDots.map((dot, index) => {
     // Position-based timing variation: Calculate delay and duration based on dot position
@@ -222,8 +230,14 @@ export function generateLottieAnimation(
       opacityKeyframes.push(createKeyframe(0, 100, 100));
     }
 
-    // Color assignment: Force all dots to be black for visibility against light/transparent background
-    const rgb: [number, number, number] = [0, 0, 0]; // Black color in RGB (0-1 range)
+    // Color assignment: Force all dots to be black for visibility against light/transparent background,
+    // unless they carry colors sampled from the image or a gradient, kept as on the canvas
+    const rgb: [number, number, number] =
+      settings.colorMode === "image" ||
+      settings.colorMode === "inks" ||
+      settings.useGradient
+        ? hexToRgb(dot.color)
+        : [0, 0, 0]; // RGB (0-1 range)
 
     // Size calculation: Scale up dots significantly for Lottie visibility
     // Base size in pixels (radius for circle, half-width for square)
@@ -234,8 +248,9 @@ export function generateLottieAnimation(
     const diameter = Math.max(rawDiameter, minDiameter);
 
     // Shape rendering: Create Lottie shape based on dot shape type
+    // (ASCII characters take the text approximation)
     let shape: any;
-    switch (settings.dotShape) {
+    switch (dot.char ? "custom" : settings.dotShape) {
       case "round": {
         // Circle/ellipse: position is center relative to layer, size is width/height
         shape = {
@@ -255,6 +270,41 @@ export function generateLottieAnimation(
         };
         break;
       }
+      case "ellipse": {
+        // Ellipse: Squashed vertically, the layer rotation turns it with the screen
+        shape = {
+          ty: "el",
+          p: createStaticProperty([0, 0]),
+          s: createStaticProperty([
+            diameter,
+            diameter * (settings.ellipseAspect ?? 0.5),
+          ]),
+        };
+        break;
+      }
+      case "diamond":
+      case "triangle":
+      case "hexagon":
+      case "star":
+      case "line": {
+        // Polygon shapes: Same outline as SVG and canvas, sized from the clamped diameter
+        const polygon = createShapePolygon(settings.dotShape, diameter / 2, {
+          starPoints: settings.starPoints,
+        })!;
+        shape = {
+          ty: "sh",
+          ks: {
+            a: 0, // Not animated
+            k: {
+              i: polygon.map(() => [0, 0]), // Straight segments: no tangents
+              o: polygon.map(() => [0, 0]),
+              v: polygon,
+              c: true, // Closed
+            },
+          },
+        };
+        break;
+      }
       case "plus":
       case "custom": {
         // Text approximation: For text shapes, approximate as a circle for simplicity
@@ -273,6 +323,27 @@ export function generateLottieAnimation(
         };
     }
 
+    // Outline paths: Computed geometry (Euclidean dots, line strokes) becomes one
+    // path per polygon, relative to the layer position; Euclidean dots scale like the primitives
+    const pathScale = hasLineScreen ? 1 : scaleFactor;
+    const shapeItems: any[] = dot.path
+      ? parsePolygonPath(dot.path).map((polygon) => ({
+          ty: "sh",
+          ks: {
+            a: 0, // Not animated
+            k: {
+              i: polygon.map(() => [0, 0]), // Straight segments: no tangents
+              o: polygon.map(() => [0, 0]),
+              v: polygon.map(([x, y]) => [
+                (x - dot.x) * pathScale,
+                (y - dot.y) * pathScale,
+              ]),
+              c: true, // Closed
+            },
+          },
+        }))
+      : [shape];
+
     // Fill definition: Handle fill pattern (for Lottie, we use solid fill; patterns would need more complex setup)
     // Fill opacity is static; layer opacity handles the animation
     const fill = {
@@ -291,7 +362,9 @@ export function generateLottieAnimation(
       sr: 1,
       ks: {
         o: createAnimatedProperty(opacityKeyframes, 100),
-        r: createStaticProperty(settings.angle || 0),
+        r: createStaticProperty(
+          dot.path ? 0 : (settings.angle || 0) + (settings.screenAngle || 0)
+        ),
         p: createStaticProperty([dot.x, dot.y, 0]), // Layer position
         a: createStaticProperty([0, 0, 0]), // Anchor at origin - layer position p places the anchor
         s: createAnimatedProperty(scaleKeyframes, [100, 100, 100]),
@@ -300,9 +373,9 @@ export function generateLottieAnimation(
       shapes: [
         {
           ty: "gr", // Group
-          it: [shape, fill], // Shape first, then fill
+          it: [...shapeItems, fill], // Shapes first, then fill
           nm: "Dot Group",
-          np: 2, // Number of items
+          np: shapeItems.length + 1, // Number of items
           cix: 2,
           bm: 0,
         },
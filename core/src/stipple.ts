@@ -0,0 +1,297 @@
+import { Dot, HalftoneSettings } from "./types";
+import {
+  adjustColor,
+  createInkMatcher,
+  inkLayer,
+  resolvePalette,
+} from "./utils/color";
+import { createGradientColorizer } from "./utils/gradient";
+import { createLuminanceMap } from "./utils/sampling";
+import { createRandom, DEFAULT_SEED } from "./utils/random";
+import { createToneMapper } from "./utils/tone";
+import { createDotSizeAdjuster } from "./utils/dotGain";
+
+/**
+ * ============================================================================
+ * WEIGHTED VORONOI STIPPLING
+ * ============================================================================
+ * Places a fixed budget of equal-size dots whose density follows the image.
+ * Groups related functionality:
+ * - Per-pixel weights from luminance, tone and invert (same levels as the screen)
+ * - Seeded rejection sampling of the initial points
+ * - Weighted Lloyd relaxation over a pixel-discretized Voronoi diagram
+ * - Step-by-step relaxation so long runs can report progress
+ */
+
+export const DEFAULT_STIPPLE_ITERATIONS = 20;
+
+export interface Stippler {
+  iterations: number; // relaxation passes requested by the settings
+  step: () => void; // runs one relaxation pass
+  getDots: () => Dot[];
+}
+
+// Search radius: Pixels with no point within this many buckets belong to no cell,
+// so large empty areas can't make every lookup scan the whole grid
+const MAX_SEARCH_RINGS = 4;
+
+// Nearest point lookup: Bucket points on a coarse grid and search outward ring by ring,
+// starting at the first ring that holds any point
+const createNearestFinder = (
+  xs: Float64Array,
+  ys: Float64Array,
+  width: number,
+  height: number,
+  bucketSize: number
+) => {
+  const cols = Math.max(1, Math.ceil(width / bucketSize));
+  const rows = Math.max(1, Math.ceil(height / bucketSize));
+  const buckets: number[][] = Array.from({ length: cols * rows }, () => []);
+  for (let i = 0; i < xs.length; i++) {
+    const c = Math.min(cols - 1, Math.max(0, Math.floor(xs[i] / bucketSize)));
+    const r = Math.min(rows - 1, Math.max(0, Math.floor(ys[i] / bucketSize)));
+    buckets[r * cols + c].push(i);
+  }
+  const maxRing = Math.min(Math.max(cols, rows), MAX_SEARCH_RINGS);
+
+  // Empty rings: Ring distance from each bucket to the nearest occupied bucket,
+  // by a breadth-first pass over the 8-connected bucket grid
+  const firstRing = new Int32Array(cols * rows).fill(-1);
+  let frontier: number[] = [];
+  buckets.forEach((bucket, i) => {
+    if (bucket.length > 0) {
+      firstRing[i] = 0;
+      frontier.push(i);
+    }
+  });
+  for (let ring = 1; ring <= maxRing && frontier.length > 0; ring++) {
+    const next: number[] = [];
+    frontier.forEach((i) => {
+      const c = i % cols;
+      const r = (i - c) / cols;
+      for (let dr = -1; dr <= 1; dr++) {
+        for (let dc = -1; dc <= 1; dc++) {
+          const nr = r + dr;
+          const nc = c + dc;
+          if (nr < 0 || nc < 0 || nr >= rows || nc >= cols) continue;
+          const j = nr * cols + nc;
+          if (firstRing[j] >= 0) continue;
+          firstRing[j] = ring;
+          next.push(j);
+        }
+      }
+    });
+    frontier = next;
+  }
+
+  return (x: number, y: number): number => {
+    const col = Math.min(cols - 1, Math.floor(x / bucketSize));
+    const row = Math.min(rows - 1, Math.floor(y / bucketSize));
+    const startRing = firstRing[row * cols + col];
+    if (startRing < 0) return -1;
+    let best = -1;
+    let bestDistance = Infinity;
+
+    for (let ring = startRing; ring <= maxRing; ring++) {
+      // Early exit: Every point in this ring is at least (ring - 1) buckets away
+      const ringDistance = (ring - 1) * bucketSize;
+      if (best >= 0 && ringDistance * ringDistance > bestDistance) break;
+
+      for (let r = row - ring; r <= row + ring; r++) {
+        if (r < 0 || r >= rows) continue;
+        const edgeRow = r === row - ring || r === row + ring;
+        for (let c = col - ring; c <= col + ring; c += edgeRow ? 1 : 2 * ring) {
+          if (c < 0 || c >= cols) continue;
+          for (const index of buckets[r * cols + c]) {
+            const dx = xs[index] - x;
+            const dy = ys[index] - y;
+            const distance = dx * dx + dy * dy;
+            if (distance < bestDistance) {
+              bestDistance = distance;
+              best = index;
+            }
+          }
+          if (ring === 0) break;
+        }
+      }
+    }
+    return best;
+  };
+};
+
+export const createStippler = (
+  pixelData: Uint8ClampedArray,
+  width: number,
+  height: number,
+  settings: HalftoneSettings
+): Stippler => {
+  const {
+    resolution,
+    dotSize,
+    invert,
+    useGradient,
+    color1,
+    seed = DEFAULT_SEED,
+    tone,
+    stippleIterations = DEFAULT_STIPPLE_ITERATIONS,
+    colorMode = "palette",
+    colorSaturation = 1,
+    colorLevels = 0,
+  } = settings;
+
+  // Weight map: The same tone-mapped, optionally inverted level that sizes screen dots
+  const toneMapper = tone
+    ? createToneMapper(tone)
+    : (luminance: number) => luminance;
+  const weights = createLuminanceMap(
+    pixelData,
+    width,
+    height,
+    settings.luminanceModel,
+    settings.keyColor
+  ).map((luminance) => {
+    const level = toneMapper(luminance);
+    return invert ? 1 - level : level;
+  });
+
+  // Dot budget: As much ink as a full-density grid at this resolution would lay down
+  const cols = resolution;
+  const rows = Math.max(1, Math.round(cols * (height / width)));
+  const pitch = Math.min(width / cols, height / rows);
+  const meanWeight =
+    weights.reduce((sum, weight) => sum + weight, 0) /
+    Math.max(1, weights.length);
+  const count = Math.round(cols * rows * meanWeight);
+
+  // Initial points: Rejection sampling so the first pass already follows the weights
+  const random = createRandom(seed);
+  const xs = new Float64Array(count);
+  const ys = new Float64Array(count);
+  for (let i = 0; i < count; i++) {
+    let x = 0;
+    let y = 0;
+    for (let attempt = 0; attempt < 100; attempt++) {
+      x = random() * width;
+      y = random() * height;
+      if (random() < weights[Math.floor(y) * width + Math.floor(x)]) break;
+    }
+    xs[i] = x;
+    ys[i] = y;
+  }
+
+  // Voronoi accumulation: Assign every pixel to its nearest point and sum weighted positions;
+  // zero-weight pixels move no centroid, so they're only visited to average image colors
+  const collectColors = colorMode === "image" || colorMode === "inks";
+  const accumulate = () => {
+    const findNearest = createNearestFinder(xs, ys, width, height, pitch);
+    const totals = new Float64Array(count * 3);
+    const colors = new Float64Array(count * 4);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const pixel = y * width + x;
+        const weight = weights[pixel];
+        if (weight <= 0 && !collectColors) continue;
+        const index = findNearest(x + 0.5, y + 0.5);
+        if (index < 0) continue;
+        totals[index * 3] += weight * (x + 0.5);
+        totals[index * 3 + 1] += weight * (y + 0.5);
+        totals[index * 3 + 2] += weight;
+        if (collectColors) {
+          colors[index * 4] += pixelData[pixel * 4];
+          colors[index * 4 + 1] += pixelData[pixel * 4 + 1];
+          colors[index * 4 + 2] += pixelData[pixel * 4 + 2];
+          colors[index * 4 + 3] += 1;
+        }
+      }
+    }
+    return { totals, colors };
+  };
+
+  // Last pass: Cell colors from the latest accumulation, reused by getDots
+  let lastColors: Float64Array | null = null;
+
+  const step = () => {
+    if (count === 0) return;
+    const { totals, colors } = accumulate();
+    lastColors = colors;
+
+    // Lloyd relaxation: Move each point to the weighted centroid of its Voronoi cell
+    for (let i = 0; i < count; i++) {
+      const total = totals[i * 3 + 2];
+      if (total <= 0) continue;
+      xs[i] = totals[i * 3] / total;
+      ys[i] = totals[i * 3 + 1] / total;
+    }
+  };
+
+  // Dot radius: Equal for every stipple, limited by the print clamps at the nominal spacing
+  const radius = createDotSizeAdjuster(settings, width)(
+    1,
+    (pitch / 2) * dotSize,
+    pitch
+  );
+
+  const gradientColorAt =
+    useGradient && createGradientColorizer(settings, width, height);
+
+  // Ink matching: With a palette each stipple takes the ink nearest its cell's color
+  const palette =
+    colorMode === "inks" ? resolvePalette(pixelData, settings) : [];
+  const matchInk = palette.length > 0 && createInkMatcher(palette);
+
+  const getDots = (): Dot[] => {
+    if (collectColors && !lastColors) lastColors = accumulate().colors;
+    const colors = collectColors ? lastColors : null;
+    const dots: Dot[] = [];
+    for (let i = 0; i < count; i++) {
+      const x = xs[i];
+      const y = ys[i];
+
+      // Dot color: Palette or gradient as on the screen, or the cell's average image
+      // color or its nearest ink
+      let color = color1;
+      let layer: string | undefined;
+      if (colors && colors[i * 4 + 3] > 0) {
+        const area = colors[i * 4 + 3];
+        const r = colors[i * 4] / area;
+        const g = colors[i * 4 + 1] / area;
+        const b = colors[i * 4 + 2] / area;
+        if (matchInk) {
+          const ink = matchInk(r, g, b);
+          color = palette[ink];
+          layer = inkLayer(ink);
+        } else {
+          color = adjustColor(r, g, b, colorSaturation, colorLevels);
+        }
+      } else if (gradientColorAt) {
+        const pixel =
+          Math.min(height - 1, Math.floor(y)) * width +
+          Math.min(width - 1, Math.floor(x));
+        color = gradientColorAt(x, y, weights[pixel]);
+      }
+
+      const dot: Dot = { x, y, size: radius, color };
+      if (layer) dot.layer = layer;
+      dots.push(dot);
+    }
+    return dots;
+  };
+
+  return { iterations: Math.max(0, stippleIterations), step, getDots };
+};
+
+// Stippling: Run every relaxation pass, reporting progress [0-1] after each
+export const generateStippleDots = (
+  pixelData: Uint8ClampedArray,
+  width: number,
+  height: number,
+  settings: HalftoneSettings,
+  onProgress?: (progress: number) => void
+): Dot[] => {
+  const stippler = createStippler(pixelData, width, height, settings);
+  for (let i = 0; i < stippler.iterations; i++) {
+    stippler.step();
+    onProgress?.((i + 1) / stippler.iterations);
+  }
+  return stippler.getDots();
+};
@@ -1,5 +1,89 @@
-export type DotShape = 'round' | 'square' | 'plus' | 'custom';
+export type DotShape =
+  | 'round'
+  | 'square'
+  | 'plus'
+  | 'custom'
+  | 'euclidean'
+  | 'ellipse'
+  | 'diamond'
+  | 'triangle'
+  | 'hexagon'
+  | 'star'
+  | 'line';
 export type FillPattern = 'solid' | 'stripes' | 'checkerboard';
+export type SamplingMode = 'center' | 'average' | 'gaussian' | 'max' | 'min';
+export type LuminanceModel =
+  | 'bt601'
+  | 'bt709'
+  | 'lightness'
+  | 'red'
+  | 'green'
+  | 'blue'
+  | 'alpha'
+  | 'saturation'
+  | 'key';
+export type GridType =
+  | 'square'
+  | 'hex'
+  | 'brick'
+  | 'diamond'
+  | 'poisson'
+  | 'concentric'
+  | 'spiral'
+  | 'adaptive';
+export type HalftoneMethod = 'amplitude' | 'diffusion' | 'stipple' | 'ascii';
+
+export type ColorMode = 'palette' | 'image' | 'inks';
+
+export type LineStyle = 'none' | 'horizontal' | 'angled' | 'wavy' | 'circular';
+export type DiffusionKernel =
+  | 'floyd-steinberg'
+  | 'atkinson'
+  | 'jarvis-judice-ninke'
+  | 'stucki';
+export type EdgeDetector = 'sobel' | 'canny';
+export type EdgeMode = 'none' | 'boost' | 'placement' | 'outline';
+export type PaletteMethod = 'median-cut' | 'kmeans' | 'custom';
+export type ColorSpace = 'srgb' | 'linear-rgb' | 'oklab' | 'oklch' | 'hsl';
+export type HueInterpolation = 'shorter' | 'longer';
+export type GradientType = 'linear' | 'radial' | 'conic' | 'luminance';
+export type SeparationMode = 'none' | 'cmyk';
+export type CmykChannel = 'cyan' | 'magenta' | 'yellow' | 'black';
+
+export interface CmykPlate {
+  channel: CmykChannel;
+  color: string; // ink color the plate is printed with
+  screenAngle: number; // per-plate screen rotation in degrees
+  enabled: boolean; // disabled plates are skipped so others can be exported alone
+}
+
+export interface GradientStop {
+  offset: number; // position along the gradient [0-1]
+  color: string;
+}
+
+export interface CurvePoint {
+  x: number; // input luminance [0-1]
+  y: number; // output luminance [0-1]
+}
+
+export interface ToneSettings {
+  brightness: number; // added to luminance, -1 to 1
+  contrast: number; // -1 (flat) to 1 (hard threshold), 0 = unchanged
+  gamma: number; // > 1 lifts midtones, < 1 darkens them
+  blackPoint: number; // luminance mapped to 0
+  whitePoint: number; // luminance mapped to 1
+  curve: CurvePoint[]; // tone curve control points, applied last
+}
+
+export interface CustomStamp {
+  kind: 'path' | 'image';
+  data: string; // SVG path data for 'path', image data URL for 'image'
+  width: number; // width of the coordinate box (path viewBox or image pixels)
+  height: number; // height of the coordinate box
+  x?: number; // left edge of the path viewBox (default 0)
+  y?: number; // top edge of the path viewBox (default 0)
+}
 
 export interface HalftoneSettings {
   resolution: number;
@@ -15,6 +99,54 @@ export interface HalftoneSettings {
   customCharacter: string;
   fillPattern: FillPattern;
   angle: number;
+  samplingMode?: SamplingMode; // how each grid cell is reduced to one luminance (default 'center')
+  screenAngle?: number; // rotation of the dot lattice in degrees around the image center (default 0)
+  luminanceModel?: LuminanceModel; // value that drives dot size (default 'bt601')
+  keyColor?: string; // hue reference for the 'key' luminance model (default '#ff0000')
+  colorMode?: ColorMode; // 'palette' uses color1/gradient, 'image' uses each cell's averaged source color, 'inks' its nearest palette ink (default 'palette')
+  paletteMethod?: PaletteMethod; // how the 'inks' palette is built: extracted from the image or paletteColors (default 'median-cut')
+  paletteSize?: number; // number of inks extracted from the image (default 4)
+  paletteColors?: string[]; // user-supplied inks for the 'custom' palette method (default none)
+  colorSaturation?: number; // saturation multiplier for image colors, 1 = unchanged (default 1)
+  colorLevels?: number; // quantize image colors to this many levels per channel, 0 = off (default 0)
+  gradientType?: GradientType; // 'linear' along gradientAngle, 'radial' or 'conic' around gradientCenter, 'luminance' by cell tone (default 'linear')
+  gradientStops?: GradientStop[]; // colors along the gradient (default color1 to color2)
+  gradientAngle?: number; // linear direction and conic start in degrees, 0 = left to right, 90 = top to bottom (default from gradientDirection)
+  gradientCenter?: { x: number; y: number }; // origin of radial and conic gradients as a fraction of the frame (default center)
+  gradientColorSpace?: ColorSpace; // space gradient stops are blended in; 'oklab' and 'oklch' avoid muddy midpoints (default 'srgb')
+  gradientHue?: HueInterpolation; // way around the hue circle for 'oklch' and 'hsl' blends (default 'shorter')
+  alphaMask?: boolean; // skip cells whose average opacity is below alphaThreshold (default false)
+  alphaThreshold?: number; // minimum cell opacity [0-1] for a dot when masking (default 0.5)
+  alphaCoverage?: boolean; // multiply dot size by cell opacity (default false)
+  tone?: ToneSettings; // luminance adjustments applied before dot generation (default none)
+  seed?: number; // seeds position jitter so identical settings give identical output (default 1)
+  gridType?: GridType; // lattice the dot centers are placed on, or 'poisson' for blue-noise scatter (default 'square')
+  adaptiveMinDepth?: number; // quadtree splits every 'adaptive' cell gets (default 0)
+  adaptiveMaxDepth?: number; // most quadtree splits a busy 'adaptive' cell can get (default 3)
+  adaptiveThreshold?: number; // luminance standard deviation [0-1] above which a cell splits (default 0.08)
+  layoutCenter?: { x: number; y: number }; // origin of concentric and spiral layouts as a fraction of the frame (default center)
+  separation?: SeparationMode; // 'cmyk' splits the image into four overlaid plates (default 'none')
+  cmykPlates?: CmykPlate[]; // plate inks and angles for 'cmyk' separation (default DEFAULT_CMYK_PLATES)
+  method?: HalftoneMethod; // 'amplitude' varies dot size, 'diffusion' varies dot presence, 'stipple' relaxes free dots, 'ascii' draws characters from asciiRamp (default 'amplitude')
+  diffusionKernel?: DiffusionKernel; // error diffusion weights for the 'diffusion' method (default 'floyd-steinberg')
+  lineStyle?: LineStyle; // replace dots with lines of varying thickness; 'angled' and 'wavy' follow screenAngle, 'circular' rings layoutCenter (default 'none')
+  lineWaviness?: number; // wave amplitude of 'wavy' lines as a fraction of line spacing (default 0.5)
+  sizeLevels?: number; // snap dot sizes to this many discrete sizes, 0 = continuous (default 0)
+  sizeLevelDither?: boolean; // ordered-dither between adjacent size levels instead of rounding (default false)
+  dotGain?: number; // expected printed growth of a 50% dot as a coverage fraction, compensated by shrinking dots (default 0)
+  printWidth?: number; // printed width of the image in millimetres, the scale of the physical dot limits (default 210)
+  minDotDiameter?: number; // smallest printable dot in mm; smaller dots grow to it or are dropped, 0 = off (default 0)
+  maxDotDiameter?: number; // largest dot in mm, 0 = off (default 0)
+  minDotGap?: number; // paper kept between neighbouring dots in mm, 0 = off (default 0)
+  edgeMode?: EdgeMode; // 'boost' grows dots on edges, 'placement' splits adaptive cells on edges, 'outline' adds an edge dot layer (default 'none')
+  edgeDetector?: EdgeDetector; // 'sobel' gradient strength or thinned binary 'canny' edges (default 'sobel')
+  edgeStrength?: number; // how much edges boost dots or drive splits, and outline dot size as a fraction of full size [0-1] (default 0.5)
+  edgeThreshold?: number; // edge strength [0-1] that counts as an edge for Canny and outline tracing (default 0.25)
+  stippleIterations?: number; // Lloyd relaxation passes for the 'stipple' method (default 20)
+  ellipseAspect?: number; // height of 'ellipse' dots as a fraction of their width (default 0.5)
+  starPoints?: number; // number of points of 'star' dots (default 5)
+  asciiRamp?: string; // characters from darkest to brightest cell for the 'ascii' method (default ' .:-=+*#%@')
+  customStamp?: CustomStamp; // vector or bitmap stamp drawn by the 'custom' shape instead of customCharacter (default none)
 }
 
 export interface Dot {
@@ -22,6 +154,16 @@ export interface Dot {
   y: number;
   size: number;
   color: string;
+  layer?: string; // separation plate the dot belongs to (e.g. 'cyan'), unset for single-layer output
+  char?: string; // character drawn in a monospace font instead of the dot shape (ASCII art)
+  path?: string; // absolute SVG path data drawn instead of the dot shape (e.g. a line-screen stroke outline)
+}
+
+export interface DotLayer {
+  id: string;
+  color: string; // ink color shared by every dot in the layer
+  blendMode: 'normal' | 'multiply';
+  dots: Dot[];
 }
 
 export interface AnimationSettings {
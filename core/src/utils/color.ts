@@ -1,3 +1,10 @@
+import {
+  ColorSpace,
+  HalftoneSettings,
+  HueInterpolation,
+  PaletteMethod,
+} from "../types";
+
 /**
  * ============================================================================
  * COLOR UTILITY FUNCTIONS
@@ -6,11 +13,19 @@
  * Groups related functionality:
  * - Hex to RGB conversion
  * - RGB to Hex conversion
- * - Color interpolation (lerp) for gradients
+ * - Color interpolation (lerp) for gradients in sRGB, linear RGB, OKLab, OKLCH or HSL
+ * - Saturation boost and per-channel quantization for sampled colors
+ * - RGB to CMYK separation
+ * - sRGB linearization, OKLab and HSL conversion, CIELAB lightness, hue and saturation
+ * - Palette extraction (median cut, k-means) or custom inks, and nearest-ink lookup
  */
 
+type Rgb = [number, number, number];
+
 // Hex to RGB conversion: Parse hex color string to RGB object
-const hexToRgb = (hex: string): { r: number; g: number; b: number } | null => {
+export const hexToRgb = (
+  hex: string
+): { r: number; g: number; b: number } | null => {
   const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
   return result
     ? {
@@ -32,11 +47,14 @@ const rgbToHex = (r: number, g: number, b: number): string => {
   );
 };
 
-// Color interpolation: Linear interpolation between two hex colors
+// Color interpolation: Interpolation between two hex colors in the given color space;
+// polar spaces (OKLCH, HSL) travel the shorter or longer way around the hue circle
 export const lerpColor = (
   color1: string,
   color2: string,
-  amount: number
+  amount: number,
+  space: ColorSpace = "srgb",
+  hue: HueInterpolation = "shorter"
 ): string => {
   const c1 = hexToRgb(color1);
   const c2 = hexToRgb(color2);
@@ -48,6 +66,16 @@ export const lerpColor = (
   // Amount clamping: Ensure interpolation amount is between 0 and 1
   const a = Math.max(0, Math.min(1, amount));
 
+  // Other spaces: Blend converted colors, clipping results outside the sRGB gamut
+  if (space !== "srgb") {
+    const from: Rgb = [c1.r, c1.g, c1.b];
+    const to: Rgb = [c2.r, c2.g, c2.b];
+    const [r, g, b] = INTERPOLATORS[space](from, to, a, hue).map((channel) =>
+      Math.round(Math.max(0, Math.min(255, channel)))
+    );
+    return rgbToHex(r, g, b);
+  }
+
   // RGB interpolation: Interpolate each color channel separately
   const r = Math.round(c1.r + (c2.r - c1.r) * a);
   const g = Math.round(c1.g + (c2.g - c1.g) * a);
@@ -55,3 +83,415 @@ export const lerpColor = (
 
   return rgbToHex(r, g, b);
 };
+
+// Color adjustment: Scale saturation around the BT.601 grey of a color, then
+// optionally posterize each channel to the given number of levels (< 2 = off)
+export const adjustColor = (
+  r: number,
+  g: number,
+  b: number,
+  saturation = 1,
+  levels = 0
+): string => {
+  const grey = 0.299 * r + 0.587 * g + 0.114 * b;
+  const adjust = (channel: number) => {
+    let value = Math.max(
+      0,
+      Math.min(255, grey + (channel - grey) * saturation)
+    );
+    if (levels >= 2) {
+      const steps = Math.round(levels) - 1;
+      value = (Math.round((value / 255) * steps) / steps) * 255;
+    }
+    return Math.round(value);
+  };
+  return rgbToHex(adjust(r), adjust(g), adjust(b));
+};
+
+// CMYK separation: Naive undercolor removal, returns ink coverage [0-1] per channel
+export const rgbToCmyk = (
+  r: number,
+  g: number,
+  b: number
+): { c: number; m: number; y: number; k: number } => {
+  const rn = r / 255;
+  const gn = g / 255;
+  const bn = b / 255;
+  const k = 1 - Math.max(rn, gn, bn);
+  if (k >= 1) {
+    return { c: 0, m: 0, y: 0, k: 1 };
+  }
+  return {
+    c: (1 - rn - k) / (1 - k),
+    m: (1 - gn - k) / (1 - k),
+    y: (1 - bn - k) / (1 - k),
+    k,
+  };
+};
+
+// sRGB linearization: Undo the sRGB transfer curve for a channel in [0-1]
+export const srgbToLinear = (channel: number): number =>
+  channel <= 0.04045
+    ? channel / 12.92
+    : Math.pow((channel + 0.055) / 1.055, 2.4);
+
+// sRGB encoding: Apply the sRGB transfer curve to a linear channel in [0-1]
+export const linearToSrgb = (channel: number): number =>
+  channel <= 0.0031308
+    ? channel * 12.92
+    : 1.055 * Math.pow(channel, 1 / 2.4) - 0.055;
+
+// OKLab: Perceptual [L, a, b] of an sRGB color (channels 0-255), using Björn
+// Ottosson's reference matrices; L is 0 for black and 1 for white
+export const rgbToOklab = (r: number, g: number, b: number): Rgb => {
+  const lr = srgbToLinear(r / 255);
+  const lg = srgbToLinear(g / 255);
+  const lb = srgbToLinear(b / 255);
+  const l = Math.cbrt(
+    0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb
+  );
+  const m = Math.cbrt(
+    0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb
+  );
+  const s = Math.cbrt(
+    0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb
+  );
+  return [
+    0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  ];
+};
+
+// OKLab to sRGB: Channels 0-255, unclamped so callers can clip out-of-gamut colors
+export const oklabToRgb = (L: number, a: number, b: number): Rgb => {
+  const l = (L + 0.3963377774 * a + 0.2158037573 * b) ** 3;
+  const m = (L - 0.1055613458 * a - 0.0638541728 * b) ** 3;
+  const s = (L - 0.0894841775 * a - 1.291485548 * b) ** 3;
+  return [
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s,
+  ].map((channel) => linearToSrgb(channel) * 255) as Rgb;
+};
+
+// HSL: Hue in degrees [0-360), saturation and lightness [0-1]
+export const rgbToHsl = (r: number, g: number, b: number): Rgb => {
+  const rn = r / 255;
+  const gn = g / 255;
+  const bn = b / 255;
+  const max = Math.max(rn, gn, bn);
+  const min = Math.min(rn, gn, bn);
+  const l = (max + min) / 2;
+  const delta = max - min;
+  if (delta === 0) return [0, 0, l];
+  const s = delta / (1 - Math.abs(2 * l - 1));
+  return [rgbToHueSaturation(r, g, b).h, s, l];
+};
+
+export const hslToRgb = (h: number, s: number, l: number): Rgb => {
+  const chroma = (1 - Math.abs(2 * l - 1)) * s;
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return (l - (chroma / 2) * Math.max(-1, Math.min(k - 3, 9 - k, 1))) * 255;
+  };
+  return [channel(0), channel(8), channel(4)];
+};
+
+// Achromatic colors: Below this OKLCH chroma (or at zero HSL saturation) hue is
+// meaningless, so a blend takes the other color's hue instead of swinging through red
+const ACHROMATIC_CHROMA = 1e-4;
+
+// Hue blending: Interpolate angles the shorter or longer way around the circle
+const lerpHue = (
+  h1: number,
+  h2: number,
+  amount: number,
+  hue: HueInterpolation
+): number => {
+  let delta = h2 - h1;
+  if (hue === "longer") {
+    if (delta > 0 && delta < 180) delta -= 360;
+    else if (delta > -180 && delta <= 0) delta += 360;
+  } else if (delta > 180) {
+    delta -= 360;
+  } else if (delta < -180) {
+    delta += 360;
+  }
+  const h = h1 + delta * amount;
+  return ((h % 360) + 360) % 360;
+};
+
+// Polar blending: Lerp the non-hue channels, blend hue, and borrow the hue of a
+// chromatic color when the other one has none
+const lerpPolar = (
+  from: Rgb,
+  to: Rgb,
+  amount: number,
+  hue: HueInterpolation,
+  hueIndex: number,
+  isAchromatic: (color: Rgb) => boolean
+): Rgb => {
+  const start = from.slice() as Rgb;
+  const end = to.slice() as Rgb;
+  if (isAchromatic(start)) start[hueIndex] = end[hueIndex];
+  if (isAchromatic(end)) end[hueIndex] = start[hueIndex];
+  return start.map((value, i) =>
+    i === hueIndex
+      ? lerpHue(value, end[i], amount, hue)
+      : value + (end[i] - value) * amount
+  ) as Rgb;
+};
+
+const lerpChannels = (from: Rgb, to: Rgb, amount: number): Rgb =>
+  from.map((value, i) => value + (to[i] - value) * amount) as Rgb;
+
+// OKLCH: OKLab as lightness, chroma and hue in degrees
+const oklabToOklch = ([L, a, b]: Rgb): Rgb => [
+  L,
+  Math.hypot(a, b),
+  ((Math.atan2(b, a) * 180) / Math.PI + 360) % 360,
+];
+
+const oklchToRgb = ([L, c, h]: Rgb): Rgb => {
+  const radians = (h * Math.PI) / 180;
+  return oklabToRgb(L, c * Math.cos(radians), c * Math.sin(radians));
+};
+
+// Interpolators: Blend two sRGB colors (channels 0-255) in each non-sRGB space
+const INTERPOLATORS: Record<
+  Exclude<ColorSpace, "srgb">,
+  (from: Rgb, to: Rgb, amount: number, hue: HueInterpolation) => Rgb
+> = {
+  "linear-rgb": (from, to, amount) =>
+    lerpChannels(
+      from.map((value) => srgbToLinear(value / 255)) as Rgb,
+      to.map((value) => srgbToLinear(value / 255)) as Rgb,
+      amount
+    ).map((value) => linearToSrgb(value) * 255) as Rgb,
+  oklab: (from, to, amount) => {
+    const [L, a, b] = lerpChannels(
+      rgbToOklab(...from),
+      rgbToOklab(...to),
+      amount
+    );
+    return oklabToRgb(L, a, b);
+  },
+  oklch: (from, to, amount, hue) =>
+    oklchToRgb(
+      lerpPolar(
+        oklabToOklch(rgbToOklab(...from)),
+        oklabToOklch(rgbToOklab(...to)),
+        amount,
+        hue,
+        2,
+        ([, c]) => c < ACHROMATIC_CHROMA
+      )
+    ),
+  hsl: (from, to, amount, hue) =>
+    hslToRgb(
+      ...lerpPolar(
+        rgbToHsl(...from),
+        rgbToHsl(...to),
+        amount,
+        hue,
+        0,
+        ([, s]) => s === 0
+      )
+    ),
+};
+
+// CIELAB lightness: L* of an sRGB color, normalized to [0-1]
+export const rgbToLightness = (r: number, g: number, b: number): number => {
+  const y =
+    0.2126 * srgbToLinear(r / 255) +
+    0.7152 * srgbToLinear(g / 255) +
+    0.0722 * srgbToLinear(b / 255);
+  const f = y > 216 / 24389 ? Math.cbrt(y) : (y * 24389) / 27 / 116 + 16 / 116;
+  return (116 * f - 16) / 100;
+};
+
+// Hue and saturation: HSV hue in degrees [0-360) and saturation [0-1]
+export const rgbToHueSaturation = (
+  r: number,
+  g: number,
+  b: number
+): { h: number; s: number } => {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const delta = max - min;
+  if (delta === 0) {
+    return { h: 0, s: 0 };
+  }
+  let h: number;
+  if (max === r) {
+    h = ((g - b) / delta) % 6;
+  } else if (max === g) {
+    h = (b - r) / delta + 2;
+  } else {
+    h = (r - g) / delta + 4;
+  }
+  return { h: (h * 60 + 360) % 360, s: delta / max };
+};
+
+// Pixels used to build a palette: Large images are subsampled with a fixed stride
+const MAX_PALETTE_SAMPLES = 16384;
+const KMEANS_ITERATIONS = 12;
+
+// Palette samples: Opaque pixels of an RGBA buffer, evenly subsampled
+const samplePixels = (pixelData: Uint8ClampedArray): Rgb[] => {
+  const count = pixelData.length / 4;
+  const stride = Math.max(1, Math.floor(count / MAX_PALETTE_SAMPLES));
+  const samples: Rgb[] = [];
+  for (let i = 0; i < count; i += stride) {
+    if (pixelData[i * 4 + 3] < 128) continue;
+    samples.push([
+      pixelData[i * 4],
+      pixelData[i * 4 + 1],
+      pixelData[i * 4 + 2],
+    ]);
+  }
+  return samples;
+};
+
+const averageColor = (colors: Rgb[]): Rgb => {
+  const sum: Rgb = [0, 0, 0];
+  colors.forEach((color) => color.forEach((value, c) => (sum[c] += value)));
+  return sum.map((value) => value / colors.length) as Rgb;
+};
+
+const distanceSquared = (a: Rgb, b: Rgb) =>
+  (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+
+// Median cut: Repeatedly split the box with the widest channel range at its median
+const medianCut = (samples: Rgb[], size: number): Rgb[] => {
+  if (samples.length === 0) return [];
+  const boxes: Rgb[][] = [samples];
+  const range = (box: Rgb[], c: number) => {
+    let min = 255;
+    let max = 0;
+    box.forEach((color) => {
+      min = Math.min(min, color[c]);
+      max = Math.max(max, color[c]);
+    });
+    return max - min;
+  };
+
+  while (boxes.length < size) {
+    let best = -1;
+    let bestChannel = 0;
+    let bestRange = 0;
+    boxes.forEach((box, i) => {
+      if (box.length < 2) return;
+      for (let c = 0; c < 3; c++) {
+        const r = range(box, c);
+        if (r > bestRange) {
+          best = i;
+          bestChannel = c;
+          bestRange = r;
+        }
+      }
+    });
+    // Single colors left: Nothing more to split
+    if (best < 0) break;
+    const box = boxes[best]
+      .slice()
+      .sort((a, b) => a[bestChannel] - b[bestChannel]);
+    // Split point: The value change nearest the median, so a flat color stays in one box
+    const value = (i: number) => box[i][bestChannel];
+    const half = Math.floor(box.length / 2);
+    let after = half;
+    while (after < box.length && value(after) === value(after - 1)) after++;
+    let before = half;
+    while (before > 1 && value(before) === value(before - 1)) before--;
+    const middle =
+      after < box.length && (after - half <= half - before || before <= 1)
+        ? after
+        : before;
+    boxes.splice(best, 1, box.slice(0, middle), box.slice(middle));
+  }
+  return boxes.map(averageColor);
+};
+
+// K-means: Lloyd iterations seeded with the median-cut palette, so results are deterministic
+const kMeans = (samples: Rgb[], size: number): Rgb[] => {
+  let centers = medianCut(samples, size);
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    const clusters: Rgb[][] = centers.map(() => []);
+    samples.forEach((color) => {
+      clusters[nearestIndex(color, centers)].push(color);
+    });
+    const next = clusters.map((cluster, i) =>
+      cluster.length > 0 ? averageColor(cluster) : centers[i]
+    );
+    const moved = next.some(
+      (center, i) => distanceSquared(center, centers[i]) > 0.25
+    );
+    centers = next;
+    if (!moved) break;
+  }
+  return centers;
+};
+
+const nearestIndex = (color: Rgb, palette: Rgb[]): number => {
+  let best = 0;
+  let bestDistance = Infinity;
+  palette.forEach((ink, i) => {
+    const distance = distanceSquared(color, ink);
+    if (distance < bestDistance) {
+      best = i;
+      bestDistance = distance;
+    }
+  });
+  return best;
+};
+
+// Palette extraction: Up to `size` inks representing an RGBA image, ordered dark to light
+export const extractPalette = (
+  pixelData: Uint8ClampedArray,
+  size: number,
+  method: Exclude<PaletteMethod, "custom"> = "median-cut"
+): string[] => {
+  const samples = samplePixels(pixelData);
+  const count = Math.max(1, Math.round(size));
+  const palette =
+    method === "kmeans" ? kMeans(samples, count) : medianCut(samples, count);
+  return palette
+    .map((color) => color.map(Math.round) as Rgb)
+    .sort(
+      (a, b) =>
+        rgbToLightness(a[0], a[1], a[2]) - rgbToLightness(b[0], b[1], b[2])
+    )
+    .map(([r, g, b]) => rgbToHex(r, g, b))
+    .filter((color, i, colors) => colors.indexOf(color) === i);
+};
+
+// Ink matcher: Index of the palette color closest to an RGB color (Euclidean in sRGB),
+// with the palette parsed once for all dots
+export const createInkMatcher = (palette: string[]) => {
+  const inks = palette.map((hex) => {
+    const rgb = hexToRgb(hex) ?? { r: 0, g: 0, b: 0 };
+    return [rgb.r, rgb.g, rgb.b] as Rgb;
+  });
+  return (r: number, g: number, b: number): number =>
+    nearestIndex([r, g, b], inks);
+};
+
+// Ink layers: One per palette color, in palette order
+export const inkLayer = (index: number) => `ink-${index + 1}`;
+
+// Palette: User-supplied inks, or inks extracted from the opaque pixels of the image
+export const resolvePalette = (
+  pixelData: Uint8ClampedArray,
+  settings: HalftoneSettings
+): string[] => {
+  const {
+    paletteMethod = "median-cut",
+    paletteSize = 4,
+    paletteColors = [],
+  } = settings;
+  if (paletteMethod === "custom") {
+    return paletteColors.filter((color) => hexToRgb(color) !== null);
+  }
+  return extractPalette(pixelData, paletteSize, paletteMethod);
+};
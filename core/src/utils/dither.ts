@@ -0,0 +1,158 @@
+import { DiffusionKernel } from "../types";
+import { GridCell } from "./grid";
+
+/**
+ * ============================================================================
+ * ERROR DIFFUSION UTILITIES
+ * ============================================================================
+ * Frequency-modulated (stochastic) screening over the dot grid.
+ * Groups related functionality:
+ * - Classic diffusion kernels (Floyd–Steinberg, Atkinson, JJN, Stucki)
+ * - Lattice indexing so diffusion works on rotated screens too
+ * - Threshold and error propagation in raster order
+ * - Posterizing to discrete levels, optionally ordered-dithered on the lattice
+ */
+
+// Kernel taps: [rowOffset, colOffset, weight], weights already normalized
+type KernelTap = [number, number, number];
+
+const fromWeights = (taps: KernelTap[], divisor: number): KernelTap[] =>
+  taps.map(([dr, dc, weight]) => [dr, dc, weight / divisor]);
+
+export const DIFFUSION_KERNELS: Record<DiffusionKernel, KernelTap[]> = {
+  "floyd-steinberg": fromWeights(
+    [
+      [0, 1, 7],
+      [1, -1, 3],
+      [1, 0, 5],
+      [1, 1, 1],
+    ],
+    16
+  ),
+  // Atkinson only spreads 6/8 of the error, trading shadow detail for contrast
+  atkinson: fromWeights(
+    [
+      [0, 1, 1],
+      [0, 2, 1],
+      [1, -1, 1],
+      [1, 0, 1],
+      [1, 1, 1],
+      [2, 0, 1],
+    ],
+    8
+  ),
+  "jarvis-judice-ninke": fromWeights(
+    [
+      [0, 1, 7],
+      [0, 2, 5],
+      [1, -2, 3],
+      [1, -1, 5],
+      [1, 0, 7],
+      [1, 1, 5],
+      [1, 2, 3],
+      [2, -2, 1],
+      [2, -1, 3],
+      [2, 0, 5],
+      [2, 1, 3],
+      [2, 2, 1],
+    ],
+    48
+  ),
+  stucki: fromWeights(
+    [
+      [0, 1, 8],
+      [0, 2, 4],
+      [1, -2, 2],
+      [1, -1, 4],
+      [1, 0, 8],
+      [1, 1, 4],
+      [1, 2, 2],
+      [2, -2, 1],
+      [2, -1, 2],
+      [2, 0, 4],
+      [2, 1, 2],
+      [2, 2, 1],
+    ],
+    42
+  ),
+};
+
+// Error diffusion: Threshold each cell value [0-1] to 0 or 1, pushing the
+// quantization error onto unvisited lattice neighbours
+export const diffuseErrors = (
+  values: Float32Array,
+  cells: GridCell[],
+  kernel: DiffusionKernel
+): Float32Array => {
+  const taps =
+    DIFFUSION_KERNELS[kernel] ?? DIFFUSION_KERNELS["floyd-steinberg"];
+  const output = new Float32Array(values.length);
+  if (cells.length === 0) return output;
+
+  // Lattice indexing: Map (row, col) to a dense buffer; rotated screens use negative indices
+  let minRow = Infinity;
+  let maxRow = -Infinity;
+  let minCol = Infinity;
+  let maxCol = -Infinity;
+  cells.forEach(({ row, col }) => {
+    minRow = Math.min(minRow, row);
+    maxRow = Math.max(maxRow, row);
+    minCol = Math.min(minCol, col);
+    maxCol = Math.max(maxCol, col);
+  });
+  const stride = maxCol - minCol + 1;
+  const latticeSize = stride * (maxRow - minRow + 1);
+  const cellAt = new Int32Array(latticeSize).fill(-1);
+  cells.forEach(({ row, col }, i) => {
+    cellAt[(row - minRow) * stride + (col - minCol)] = i;
+  });
+  const errors = new Float32Array(latticeSize);
+
+  // Raster order: Visit lattice positions top-to-bottom, left-to-right
+  for (let r = 0; r <= maxRow - minRow; r++) {
+    for (let c = 0; c < stride; c++) {
+      const index = cellAt[r * stride + c];
+      if (index < 0) continue;
+
+      const value = values[index] + errors[r * stride + c];
+      const quantized = value >= 0.5 ? 1 : 0;
+      output[index] = quantized;
+
+      const error = value - quantized;
+      for (const [dr, dc, weight] of taps) {
+        const nr = r + dr;
+        const nc = c + dc;
+        if (nr > maxRow - minRow || nc < 0 || nc >= stride) continue;
+        errors[nr * stride + nc] += error * weight;
+      }
+    }
+  }
+  return output;
+};
+
+// Bayer matrix: 4x4 ordered dither thresholds, visited in raster order
+const BAYER_4 = [0, 8, 2, 10, 12, 4, 14, 6, 3, 11, 1, 9, 15, 7, 13, 5];
+
+// Ordered threshold: Cell-dependent offset in (0, 1); lattice indices may be negative
+const bayerThreshold = (row: number, col: number) => {
+  const r = ((row % 4) + 4) % 4;
+  const c = ((col % 4) + 4) % 4;
+  return (BAYER_4[r * 4 + c] + 0.5) / 16;
+};
+
+// Posterization: Snap a value [0-1] to 0 or one of `levels` equal steps up to 1;
+// dithering rounds up or down by the cell's Bayer threshold so neighbouring cells
+// mix adjacent levels and keep the average tone
+export const posterizeLevel = (
+  value: number,
+  levels: number,
+  dither = false,
+  row = 0,
+  col = 0
+): number => {
+  const scaled = Math.max(0, Math.min(1, value)) * levels;
+  const step = dither
+    ? Math.floor(scaled + bayerThreshold(row, col))
+    : Math.round(scaled);
+  return Math.min(levels, step) / levels;
+};
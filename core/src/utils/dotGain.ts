@@ -0,0 +1,72 @@
+import { HalftoneSettings } from "../types";
+
+/**
+ * ============================================================================
+ * PRINT DOT SIZE CONTROL
+ * ============================================================================
+ * Adjusts computed dot sizes so the output survives a real print process.
+ * Groups related functionality:
+ * - Dot gain compensation with a midtone-peaked gain model
+ * - Minimum and maximum dot diameters in millimetres of the printed image
+ * - Minimum paper gap so neighbouring dots never touch
+ */
+
+export const DEFAULT_PRINT_WIDTH = 210;
+
+// Dot gain compensation: Printed area grows as a + 4·g·a·(1 − a), peaking at g for
+// a 50% dot; solve for the area to emit so the printed area matches the target
+export const compensateDotGain = (area: number, gain: number): number => {
+  const target = Math.max(0, Math.min(1, area));
+  if (gain <= 0) return target;
+  const b = 1 + 4 * gain;
+  return (b - Math.sqrt(b * b - 16 * gain * target)) / (8 * gain);
+};
+
+// Size adjustment: Maps a dot's size fraction [0-1] of its full radius to the final
+// radius in pixels; dots below half the minimum are dropped, the rest grow to it.
+// Pitch is the distance to the nearest neighbouring center, shift how far the dot
+// may be moved off its center afterwards
+export const createDotSizeAdjuster = (
+  settings: HalftoneSettings,
+  width: number
+) => {
+  const {
+    dotGain = 0,
+    printWidth = DEFAULT_PRINT_WIDTH,
+    minDotDiameter = 0,
+    maxDotDiameter = 0,
+    minDotGap = 0,
+  } = settings;
+  const pxPerMm = width / printWidth;
+  const minRadius = (minDotDiameter * pxPerMm) / 2;
+  const maxRadius =
+    maxDotDiameter > 0 ? (maxDotDiameter * pxPerMm) / 2 : Infinity;
+  const gap = minDotGap * pxPerMm;
+
+  return (
+    fraction: number,
+    fullSize: number,
+    pitch: number,
+    shift = 0
+  ): number => {
+    // Gain: Compensate on dot area, which is what spreads on paper
+    const area = compensateDotGain(fraction * fraction, dotGain);
+    let size = fullSize * Math.sqrt(area);
+    if (size <= 0) return 0;
+
+    // Upper clamp: Physical maximum
+    size = Math.min(size, maxRadius);
+
+    // Lower clamp: Dots too small to hold on paper are either dropped or grown
+    if (size < minRadius) size = size < minRadius / 2 ? 0 : minRadius;
+
+    // Gap clamp: Applied last so neighbouring dots never touch, even when both are
+    // shifted toward each other; a dot that can't be both printable and clear of its
+    // neighbours is dropped
+    if (gap > 0) {
+      const gapRadius = Math.max(0, (pitch - gap) / 2 - shift);
+      if (size > gapRadius) size = gapRadius < minRadius ? 0 : gapRadius;
+    }
+    return size;
+  };
+};
@@ -0,0 +1,193 @@
+import { EdgeDetector } from "../types";
+
+/**
+ * ============================================================================
+ * EDGE DETECTION
+ * ============================================================================
+ * Finds outlines in the luminance map so the screen can keep them crisp.
+ * Groups related functionality:
+ * - Sobel gradient magnitude (continuous edge strength)
+ * - Canny edges: smoothing, non-maximum suppression and hysteresis (binary)
+ * - Tracing edge pixels into evenly spaced outline points
+ */
+
+// Layer id of the outline dots, composited as their own group
+export const EDGE_LAYER = "edges";
+
+// Sobel normalization: A hard black-to-white step yields a horizontal gradient of 4
+const SOBEL_FULL_STEP = 4;
+
+// Pixel access: Clamp to the frame so borders don't read as edges
+const createReader =
+  (values: Float32Array, width: number, height: number) =>
+  (x: number, y: number) =>
+    values[
+      Math.max(0, Math.min(height - 1, y)) * width +
+        Math.max(0, Math.min(width - 1, x))
+    ];
+
+// Sobel gradients: Horizontal and vertical derivatives of every pixel
+const sobelGradients = (
+  values: Float32Array,
+  width: number,
+  height: number
+) => {
+  const at = createReader(values, width, height);
+  const gx = new Float32Array(width * height);
+  const gy = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      gx[i] =
+        at(x + 1, y - 1) +
+        2 * at(x + 1, y) +
+        at(x + 1, y + 1) -
+        at(x - 1, y - 1) -
+        2 * at(x - 1, y) -
+        at(x - 1, y + 1);
+      gy[i] =
+        at(x - 1, y + 1) +
+        2 * at(x, y + 1) +
+        at(x + 1, y + 1) -
+        at(x - 1, y - 1) -
+        2 * at(x, y - 1) -
+        at(x + 1, y - 1);
+    }
+  }
+  return { gx, gy };
+};
+
+// Smoothing: 3x3 binomial blur so Canny ignores pixel noise
+const blur = (values: Float32Array, width: number, height: number) => {
+  const at = createReader(values, width, height);
+  const output = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      output[y * width + x] =
+        (at(x - 1, y - 1) +
+          2 * at(x, y - 1) +
+          at(x + 1, y - 1) +
+          2 * at(x - 1, y) +
+          4 * at(x, y) +
+          2 * at(x + 1, y) +
+          at(x - 1, y + 1) +
+          2 * at(x, y + 1) +
+          at(x + 1, y + 1)) /
+        16;
+    }
+  }
+  return output;
+};
+
+// Canny: Thin gradient ridges to one pixel, keep strong edges (above threshold)
+// and the weak edges (above half of it) connected to them
+const cannyEdges = (
+  values: Float32Array,
+  width: number,
+  height: number,
+  threshold: number
+) => {
+  const { gx, gy } = sobelGradients(blur(values, width, height), width, height);
+  const magnitude = gx.map((dx, i) => Math.hypot(dx, gy[i]) / SOBEL_FULL_STEP);
+
+  // Non-maximum suppression: Compare with both neighbours across the edge direction
+  const thin = new Float32Array(width * height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const m = magnitude[i];
+      if (m === 0) continue;
+      const angle = ((Math.atan2(gy[i], gx[i]) * 180) / Math.PI + 180) % 180;
+      let offset: number;
+      if (angle < 22.5 || angle >= 157.5) offset = 1;
+      else if (angle < 67.5) offset = width + 1;
+      else if (angle < 112.5) offset = width;
+      else offset = width - 1;
+      // Ties: A symmetric step peaks on two pixels; keep only the first
+      if (m > magnitude[i - offset] && m >= magnitude[i + offset]) {
+        thin[i] = m;
+      }
+    }
+  }
+
+  // Hysteresis: Grow from strong pixels into connected weak ones
+  const edges = new Float32Array(width * height);
+  const low = threshold / 2;
+  const stack: number[] = [];
+  thin.forEach((m, i) => {
+    if (m >= threshold) {
+      edges[i] = 1;
+      stack.push(i);
+    }
+  });
+  while (stack.length > 0) {
+    const i = stack.pop()!;
+    const x = i % width;
+    const y = (i - x) / width;
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+        const j = ny * width + nx;
+        if (!edges[j] && thin[j] >= low) {
+          edges[j] = 1;
+          stack.push(j);
+        }
+      }
+    }
+  }
+  return edges;
+};
+
+// Edge map: Per-pixel edge strength [0-1]; Sobel is continuous, Canny is 0 or 1
+export const createEdgeMap = (
+  values: Float32Array,
+  width: number,
+  height: number,
+  detector: EdgeDetector = "sobel",
+  threshold = 0.25
+): Float32Array => {
+  if (detector === "canny") {
+    return cannyEdges(values, width, height, threshold);
+  }
+  const { gx, gy } = sobelGradients(values, width, height);
+  return gx.map((dx, i) =>
+    Math.min(1, Math.hypot(dx, gy[i]) / SOBEL_FULL_STEP)
+  );
+};
+
+// Edge tracing: One point per spacing-sized block, on its strongest edge pixel,
+// wherever that pixel clears the threshold
+export const traceEdgePoints = (
+  edges: Float32Array,
+  width: number,
+  height: number,
+  spacing: number,
+  threshold: number
+): { x: number; y: number }[] => {
+  const step = Math.max(1, Math.round(spacing));
+  const points: { x: number; y: number }[] = [];
+  for (let y0 = 0; y0 < height; y0 += step) {
+    for (let x0 = 0; x0 < width; x0 += step) {
+      let best = -1;
+      let bestValue = threshold;
+      for (let y = y0; y < Math.min(height, y0 + step); y++) {
+        for (let x = x0; x < Math.min(width, x0 + step); x++) {
+          const value = edges[y * width + x];
+          if (value > 0 && value >= bestValue) {
+            bestValue = value;
+            best = y * width + x;
+          }
+        }
+      }
+      if (best >= 0) {
+        points.push({
+          x: (best % width) + 0.5,
+          y: Math.floor(best / width) + 0.5,
+        });
+      }
+    }
+  }
+  return points;
+};
@@ -0,0 +1,142 @@
+import {
+  ColorSpace,
+  GradientStop,
+  HalftoneSettings,
+  HueInterpolation,
+} from "../types";
+import { lerpColor } from "./color";
+
+/**
+ * ============================================================================
+ * COLOR GRADIENTS
+ * ============================================================================
+ * Maps each dot to a color along a multi-stop gradient.
+ * Groups related functionality:
+ * - Stop normalization with color1/color2 as the default two stops
+ * - Gradient position: linear at any angle, radial, conic or by luminance
+ * - Color lookup between neighbouring stops, blended in the chosen color space
+ */
+
+// Gradient inputs: The settings a gradient reads, so callers can pass just these
+export type GradientSettings = Pick<
+  HalftoneSettings,
+  | "gradientDirection"
+  | "gradientType"
+  | "gradientStops"
+  | "gradientAngle"
+  | "gradientCenter"
+  | "gradientColorSpace"
+  | "gradientHue"
+  | "color1"
+  | "color2"
+>;
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+// Stops: Clamped and sorted by offset; two-color gradient when none are set
+export const resolveGradientStops = (
+  settings: GradientSettings
+): GradientStop[] => {
+  const { gradientStops, color1, color2 } = settings;
+  if (!gradientStops || gradientStops.length === 0) {
+    return [
+      { offset: 0, color: color1 },
+      { offset: 1, color: color2 },
+    ];
+  }
+  return gradientStops
+    .map((stop) => ({ ...stop, offset: clamp01(stop.offset) }))
+    .sort((a, b) => a.offset - b.offset);
+};
+
+// Stop lookup: Interpolate between the stops around a position; flat beyond the ends
+export const sampleGradientStops = (
+  stops: GradientStop[],
+  position: number,
+  space: ColorSpace = "srgb",
+  hue: HueInterpolation = "shorter"
+): string => {
+  const t = clamp01(position);
+  const next = stops.findIndex((stop) => stop.offset > t);
+  if (next === 0) return stops[0].color;
+  if (next < 0) return stops[stops.length - 1].color;
+  const start = stops[next - 1];
+  const end = stops[next];
+  return lerpColor(
+    start.color,
+    end.color,
+    (t - start.offset) / (end.offset - start.offset),
+    space,
+    hue
+  );
+};
+
+// Gradient position: Where a point falls along the gradient [0-1]; 'luminance'
+// ignores the point and uses the dot's tone level instead
+export const createGradientPosition = (
+  settings: GradientSettings,
+  width: number,
+  height: number
+): ((x: number, y: number, level: number) => number) => {
+  const {
+    gradientType = "linear",
+    gradientDirection,
+    gradientCenter = { x: 0.5, y: 0.5 },
+  } = settings;
+  const angle =
+    settings.gradientAngle ?? (gradientDirection === "vertical" ? 90 : 0);
+  const radians = (angle * Math.PI) / 180;
+  const cx = gradientCenter.x * width;
+  const cy = gradientCenter.y * height;
+  const corners = [
+    [0, 0],
+    [width, 0],
+    [0, height],
+    [width, height],
+  ];
+
+  switch (gradientType) {
+    case "luminance":
+      return (_x, _y, level) => clamp01(level);
+    case "radial": {
+      // Radius: Reaches the farthest corner, so the last stop lands on the frame
+      const radius = Math.max(
+        ...corners.map(([x, y]) => Math.hypot(x - cx, y - cy))
+      );
+      return (x, y) => (radius > 0 ? Math.hypot(x - cx, y - cy) / radius : 0);
+    }
+    case "conic":
+      // Sweep: Clockwise from gradientAngle around the center
+      return (x, y) => {
+        const turn = (Math.atan2(y - cy, x - cx) - radians) / (2 * Math.PI);
+        return turn - Math.floor(turn);
+      };
+    default: {
+      // Linear: Project onto the direction, spanning the frame corner to corner
+      const dx = Math.cos(radians);
+      const dy = Math.sin(radians);
+      const projections = corners.map(([x, y]) => x * dx + y * dy);
+      const min = Math.min(...projections);
+      const span = Math.max(...projections) - min;
+      return (x, y) => (span > 0 ? (x * dx + y * dy - min) / span : 0);
+    }
+  }
+};
+
+// Gradient colorizer: Dot color at a point (and tone level) for the current settings
+export const createGradientColorizer = (
+  settings: GradientSettings,
+  width: number,
+  height: number
+): ((x: number, y: number, level?: number) => string) => {
+  const stops = resolveGradientStops(settings);
+  const positionAt = createGradientPosition(settings, width, height);
+  const { gradientColorSpace = "srgb", gradientHue = "shorter" } = settings;
+  return (x, y, level = 0) =>
+    sampleGradientStops(
+      stops,
+      positionAt(x, y, level),
+      gradientColorSpace,
+      gradientHue
+    );
+};
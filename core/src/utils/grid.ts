@@ -0,0 +1,274 @@
+import { GridType } from "../types";
+
+/**
+ * ============================================================================
+ * GRID LAYOUT UTILITIES
+ * ============================================================================
+ * Produces the cell centers that dots are generated from.
+ * Groups related functionality:
+ * - Resolution-based cell sizing maintaining aspect ratio
+ * - Lattice shapes (square, hexagonal, brick, diamond)
+ * - Screen rotation of the lattice around the image center
+ * - Radial layouts (concentric rings, Archimedean spiral) around a chosen center
+ * - Frame coverage so rotated or offset screens leave no gaps at the edges
+ */
+
+export interface GridCell {
+  x: number; // cell center in image space
+  y: number;
+  width: number; // sampling footprint
+  height: number;
+  pitch: number; // distance to the nearest neighbouring center, caps the dot diameter
+  row: number; // lattice indices (may be negative for rotated screens)
+  col: number;
+}
+
+export interface GridOptions {
+  resolution: number;
+  screenAngle?: number; // degrees, clockwise in screen space
+  gridType?: GridType;
+  center?: { x: number; y: number }; // radial layout origin as a fraction of the frame
+}
+
+// Lattice description: Column step, row step and the shift applied to odd rows
+interface Lattice {
+  colStep: number;
+  rowStep: number;
+  oddRowShift: number; // fraction of colStep
+  footprintWidth: number;
+  footprintHeight: number;
+  pitch: number;
+}
+
+const createLattice = (
+  gridType: GridType,
+  cellWidth: number,
+  cellHeight: number
+): Lattice => {
+  switch (gridType) {
+    case "hex": {
+      // Hexagonal packing: Rows sit √3/2 apart so every neighbour is one column step away
+      const rowStep = (cellWidth * Math.sqrt(3)) / 2;
+      return {
+        colStep: cellWidth,
+        rowStep,
+        oddRowShift: 0.5,
+        footprintWidth: cellWidth,
+        footprintHeight: rowStep,
+        pitch: cellWidth,
+      };
+    }
+    case "brick":
+      return {
+        colStep: cellWidth,
+        rowStep: cellHeight,
+        oddRowShift: 0.5,
+        footprintWidth: cellWidth,
+        footprintHeight: cellHeight,
+        pitch: Math.min(cellWidth, cellHeight),
+      };
+    case "diamond":
+      // Diamond (quincunx): Half-height rows shifted by half a column, each cell owns half the area
+      return {
+        colStep: cellWidth,
+        rowStep: cellHeight / 2,
+        oddRowShift: 0.5,
+        footprintWidth: cellWidth / Math.SQRT2,
+        footprintHeight: cellHeight / Math.SQRT2,
+        pitch: Math.min(Math.hypot(cellWidth, cellHeight) / 2, cellWidth),
+      };
+    case "square":
+    default:
+      return {
+        colStep: cellWidth,
+        rowStep: cellHeight,
+        oddRowShift: 0,
+        footprintWidth: cellWidth,
+        footprintHeight: cellHeight,
+        pitch: Math.min(cellWidth, cellHeight),
+      };
+  }
+};
+
+// Radial layouts: Dots one pitch apart along rings (or spiral turns) one pitch apart,
+// starting with a single dot on the center; rows count rings or turns, cols count dots
+const createRadialCells = (
+  width: number,
+  height: number,
+  pitch: number,
+  center: { x: number; y: number },
+  phase: number,
+  spiral: boolean
+): GridCell[] => {
+  const cells: GridCell[] = [];
+  const originX = center.x * width;
+  const originY = center.y * height;
+  const maxRadius =
+    Math.max(
+      Math.hypot(originX, originY),
+      Math.hypot(width - originX, originY),
+      Math.hypot(originX, height - originY),
+      Math.hypot(width - originX, height - originY)
+    ) + pitch;
+
+  const pushCell = (
+    radius: number,
+    theta: number,
+    row: number,
+    col: number,
+    spacing = pitch
+  ) => {
+    const x = originX + radius * Math.cos(theta + phase);
+    const y = originY + radius * Math.sin(theta + phase);
+    // Frame coverage: Keep dots whose footprint overlaps the frame
+    if (
+      x <= -pitch / 2 ||
+      x >= width + pitch / 2 ||
+      y <= -pitch / 2 ||
+      y >= height + pitch / 2
+    ) {
+      return;
+    }
+    cells.push({ x, y, width: pitch, height: pitch, pitch: spacing, row, col });
+  };
+
+  if (spiral) {
+    // Archimedean spiral: r = pitch * θ / 2π, starting one turn out around the center
+    // dot and stepping a chord of one pitch at a time
+    pushCell(0, 0, 0, 0);
+    let theta = Math.PI * 2;
+    let col = 0;
+    let turn = 1;
+    while (true) {
+      const radius = (pitch * theta) / (Math.PI * 2);
+      if (radius > maxRadius) break;
+      // Turn spacing: One pitch along the radius, a little less across the inclined
+      // spiral, most of all where the inner turn is tightest
+      const inner = Math.max(radius - pitch, pitch);
+      const spacing =
+        pitch * Math.cos(Math.atan(pitch / (Math.PI * 2 * inner)));
+      pushCell(radius, theta, turn, col++, spacing);
+      theta += 2 * Math.asin(pitch / (2 * radius));
+      const nextTurn = Math.floor(theta / (Math.PI * 2));
+      if (nextTurn !== turn) {
+        turn = nextTurn;
+        col = 0;
+      }
+    }
+    return cells;
+  }
+
+  // Concentric rings: Ring k has radius k * pitch and floor(2πk) evenly spaced dots,
+  // so neighbours along a ring are never closer than one pitch
+  pushCell(0, 0, 0, 0);
+  for (let ring = 1; ring * pitch <= maxRadius; ring++) {
+    const count = Math.floor(Math.PI * 2 * ring);
+    for (let i = 0; i < count; i++) {
+      pushCell(ring * pitch, (i / count) * Math.PI * 2, ring, i);
+    }
+  }
+  return cells;
+};
+
+export const createGridCells = (
+  width: number,
+  height: number,
+  options: GridOptions
+): GridCell[] => {
+  const {
+    resolution,
+    screenAngle = 0,
+    gridType = "square",
+    center = { x: 0.5, y: 0.5 },
+  } = options;
+
+  // Grid calculation: Create resolution-based grid maintaining aspect ratio
+  const cols = resolution;
+  const rows = Math.round(cols * (height / width));
+  const cellWidth = width / cols;
+  const cellHeight = height / rows;
+
+  const cells: GridCell[] = [];
+  const normalizedAngle = ((screenAngle % 360) + 360) % 360;
+
+  // Radial screen: Ring spacing follows the column width, screen angle rotates the start
+  if (gridType === "concentric" || gridType === "spiral") {
+    return createRadialCells(
+      width,
+      height,
+      cellWidth,
+      center,
+      (normalizedAngle * Math.PI) / 180,
+      gridType === "spiral"
+    );
+  }
+
+  // Axis-aligned square screen: Keep the exact original lattice so default output is unchanged
+  if (normalizedAngle === 0 && gridType === "square") {
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < cols; c++) {
+        cells.push({
+          x: c * cellWidth + cellWidth / 2,
+          y: r * cellHeight + cellHeight / 2,
+          width: cellWidth,
+          height: cellHeight,
+          pitch: Math.min(cellWidth, cellHeight),
+          row: r,
+          col: c,
+        });
+      }
+    }
+    return cells;
+  }
+
+  // Rotated or offset screen: Walk a lattice large enough to cover the frame's circumscribed
+  // circle, anchored so the first row and column start half a step inside the top-left corner
+  const lattice = createLattice(gridType, cellWidth, cellHeight);
+  const { colStep, rowStep, oddRowShift, footprintWidth, footprintHeight } =
+    lattice;
+  const rad = (normalizedAngle * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  const centerX = width / 2;
+  const centerY = height / 2;
+  const radius = Math.hypot(width, height) / 2;
+  const colOffset = width / colStep / 2 - 0.5;
+  const rowOffset = height / rowStep / 2 - 0.5;
+  const colSpan = Math.ceil(radius / colStep) + 1;
+  const rowSpan = Math.ceil(radius / rowStep) + 1;
+
+  for (let r = Math.floor(rowOffset - rowSpan); r <= rowOffset + rowSpan; r++) {
+    const shift = Math.abs(r % 2) === 1 ? oddRowShift : 0;
+    for (
+      let c = Math.floor(colOffset - colSpan);
+      c <= colOffset + colSpan;
+      c++
+    ) {
+      const u = (c + shift - colOffset) * colStep;
+      const v = (r - rowOffset) * rowStep;
+      const x = centerX + u * cos - v * sin;
+      const y = centerY + u * sin + v * cos;
+
+      // Frame coverage: Keep cells whose footprint overlaps the frame so edges stay filled
+      if (
+        x <= -footprintWidth / 2 ||
+        x >= width + footprintWidth / 2 ||
+        y <= -footprintHeight / 2 ||
+        y >= height + footprintHeight / 2
+      ) {
+        continue;
+      }
+
+      cells.push({
+        x,
+        y,
+        width: footprintWidth,
+        height: footprintHeight,
+        pitch: lattice.pitch,
+        row: r,
+        col: c,
+      });
+    }
+  }
+  return cells;
+};
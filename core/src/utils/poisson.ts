@@ -0,0 +1,132 @@
+import { GridCell } from "./grid";
+
+/**
+ * ============================================================================
+ * POISSON-DISK PLACEMENT
+ * ============================================================================
+ * Scatters dot centers as blue noise instead of on a lattice.
+ * Groups related functionality:
+ * - Bridson's algorithm with a background acceleration grid
+ * - Variable spacing driven by a density function (denser = closer dots)
+ * - Guaranteed minimum spacing between any two centers
+ */
+
+export interface PoissonOptions {
+  resolution: number; // dots across the image width at full density
+  density: (x: number, y: number) => number; // [0-1] at an image position
+  random: () => number;
+  maxSpacing?: number; // spacing at zero density, as a multiple of the minimum (default 4)
+  attempts?: number; // candidates tried around each active point (default 30)
+}
+
+interface PoissonPoint {
+  x: number;
+  y: number;
+  spacing: number;
+}
+
+export const createPoissonCells = (
+  width: number,
+  height: number,
+  options: PoissonOptions
+): GridCell[] => {
+  const {
+    resolution,
+    density,
+    random,
+    maxSpacing = 4,
+    attempts = 30,
+  } = options;
+  if (width <= 0 || height <= 0 || resolution <= 0) return [];
+  const minSpacing = width / resolution;
+
+  // Local spacing: Area per dot shrinks linearly with density, so dot count follows tone
+  const spacingAt = (x: number, y: number) => {
+    const d = Math.max(0, Math.min(1, density(x, y)));
+    return Math.min(minSpacing * maxSpacing, minSpacing / Math.sqrt(d));
+  };
+
+  // Acceleration grid: Cells small enough that each holds at most one point
+  const bucketSize = minSpacing / Math.SQRT2;
+  const bucketCols = Math.ceil(width / bucketSize);
+  const bucketRows = Math.ceil(height / bucketSize);
+  const buckets = new Int32Array(bucketCols * bucketRows).fill(-1);
+  const points: PoissonPoint[] = [];
+  const active: number[] = [];
+
+  // Spacing check: Two points may not be closer than the smaller of their spacings,
+  // which lets sparse regions grow out of dense ones and never drops below minSpacing
+  const fits = (x: number, y: number, spacing: number) => {
+    const col = Math.floor(x / bucketSize);
+    const row = Math.floor(y / bucketSize);
+    const reach = Math.ceil(spacing / bucketSize);
+    for (
+      let r = Math.max(0, row - reach);
+      r <= Math.min(bucketRows - 1, row + reach);
+      r++
+    ) {
+      for (
+        let c = Math.max(0, col - reach);
+        c <= Math.min(bucketCols - 1, col + reach);
+        c++
+      ) {
+        const index = buckets[r * bucketCols + c];
+        if (index < 0) continue;
+        const other = points[index];
+        const distance = Math.hypot(other.x - x, other.y - y);
+        if (distance < Math.min(spacing, other.spacing)) return false;
+      }
+    }
+    return true;
+  };
+
+  const addPoint = (x: number, y: number, spacing: number) => {
+    const bucket =
+      Math.floor(y / bucketSize) * bucketCols + Math.floor(x / bucketSize);
+    buckets[bucket] = points.length;
+    active.push(points.length);
+    points.push({ x, y, spacing });
+  };
+
+  const startX = random() * width;
+  const startY = random() * height;
+  addPoint(startX, startY, spacingAt(startX, startY));
+
+  // Bridson's algorithm: Grow from random active points until none can place a neighbour
+  while (active.length > 0) {
+    const slot = Math.floor(random() * active.length);
+    const origin = points[active[slot]];
+    let placed = false;
+
+    for (let i = 0; i < attempts && !placed; i++) {
+      // Candidate: Random point in the annulus [spacing, 2 * spacing] around the origin
+      const angle = random() * Math.PI * 2;
+      const distance = origin.spacing * (1 + random());
+      const x = origin.x + Math.cos(angle) * distance;
+      const y = origin.y + Math.sin(angle) * distance;
+      if (x < 0 || x >= width || y < 0 || y >= height) continue;
+
+      const spacing = spacingAt(x, y);
+      if (fits(x, y, spacing)) {
+        addPoint(x, y, spacing);
+        placed = true;
+      }
+    }
+
+    // Retirement: Points that failed every attempt stop spawning candidates
+    if (!placed) {
+      active[slot] = active[active.length - 1];
+      active.pop();
+    }
+  }
+
+  return points.map(({ x, y, spacing }) => ({
+    x,
+    y,
+    width: spacing,
+    height: spacing,
+    pitch: minSpacing,
+    row: Math.floor(y / bucketSize),
+    col: Math.floor(x / bucketSize),
+  }));
+};
@@ -0,0 +1,117 @@
+import { GridCell } from "./grid";
+import { createSummedAreaTable } from "./sampling";
+
+/**
+ * ============================================================================
+ * ADAPTIVE QUADTREE LAYOUT
+ * ============================================================================
+ * Mixes cell sizes so detailed areas get small dots and flat areas large ones.
+ * Groups related functionality:
+ * - Constant-time cell mean and variance from summed-area tables
+ * - Recursive subdivision of the resolution grid between min and max depth
+ * - Optional edge bias so outlines get small cells even when their tone is flat
+ */
+
+export interface QuadtreeOptions {
+  resolution: number; // columns of the coarsest (depth 0) grid
+  minDepth?: number; // every cell is split at least this many times (default 0)
+  maxDepth?: number; // no cell is split more than this many times (default 3)
+  threshold?: number; // standard deviation [0-1] above which a cell is split (default 0.08)
+  edges?: Float32Array; // per-pixel edge strength [0-1] that also counts toward splitting
+  edgeWeight?: number; // multiplier of a cell's mean edge strength in the split score (default 1)
+}
+
+export const createQuadtreeCells = (
+  values: Float32Array,
+  width: number,
+  height: number,
+  options: QuadtreeOptions
+): GridCell[] => {
+  const {
+    resolution,
+    minDepth = 0,
+    threshold = 0.08,
+    edges,
+    edgeWeight = 1,
+  } = options;
+  const maxDepth = Math.max(minDepth, options.maxDepth ?? 3);
+
+  // Cell statistics: Sum and sum of squares tables give the variance of any rectangle
+  const sums = createSummedAreaTable(values, width, height);
+  const squares = createSummedAreaTable(
+    values.map((value) => value * value),
+    width,
+    height
+  );
+  const edgeSums = edges && createSummedAreaTable(edges, width, height);
+  const stride = width + 1;
+  // Split score: Standard deviation, plus the weighted mean edge strength when edges bias placement
+  const score = (x0: number, y0: number, x1: number, y1: number) => {
+    const left = Math.max(0, Math.min(width, Math.round(x0)));
+    const right = Math.max(0, Math.min(width, Math.round(x1)));
+    const top = Math.max(0, Math.min(height, Math.round(y0)));
+    const bottom = Math.max(0, Math.min(height, Math.round(y1)));
+    const area = (right - left) * (bottom - top);
+    if (area <= 1) return 0;
+    const rect = (table: Float64Array) =>
+      table[bottom * stride + right] -
+      table[top * stride + right] -
+      table[bottom * stride + left] +
+      table[top * stride + left];
+    const mean = rect(sums) / area;
+    const deviation = Math.sqrt(
+      Math.max(0, rect(squares) / area - mean * mean)
+    );
+    return edgeSums
+      ? deviation + (edgeWeight * rect(edgeSums)) / area
+      : deviation;
+  };
+
+  // Grid calculation: Depth 0 is the regular resolution grid
+  const cols = resolution;
+  const rows = Math.round(cols * (height / width));
+  const cellWidth = width / cols;
+  const cellHeight = height / rows;
+  // Lattice indices: Positions on the finest possible grid, unique per leaf
+  const finestWidth = cellWidth / 2 ** maxDepth;
+  const finestHeight = cellHeight / 2 ** maxDepth;
+  const cells: GridCell[] = [];
+
+  // Subdivision: Split while below the minimum depth or while the cell is too busy
+  const subdivide = (
+    x0: number,
+    y0: number,
+    w: number,
+    h: number,
+    depth: number
+  ) => {
+    const split =
+      depth < minDepth ||
+      (depth < maxDepth && score(x0, y0, x0 + w, y0 + h) > threshold);
+    if (split) {
+      const halfW = w / 2;
+      const halfH = h / 2;
+      subdivide(x0, y0, halfW, halfH, depth + 1);
+      subdivide(x0 + halfW, y0, halfW, halfH, depth + 1);
+      subdivide(x0, y0 + halfH, halfW, halfH, depth + 1);
+      subdivide(x0 + halfW, y0 + halfH, halfW, halfH, depth + 1);
+      return;
+    }
+    cells.push({
+      x: x0 + w / 2,
+      y: y0 + h / 2,
+      width: w,
+      height: h,
+      pitch: Math.min(w, h),
+      row: Math.round(y0 / finestHeight),
+      col: Math.round(x0 / finestWidth),
+    });
+  };
+
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      subdivide(c * cellWidth, r * cellHeight, cellWidth, cellHeight, 0);
+    }
+  }
+  return cells;
+};
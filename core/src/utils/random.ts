@@ -0,0 +1,26 @@
+/**
+ * ============================================================================
+ * SEEDED RANDOMNESS
+ * ============================================================================
+ * Deterministic pseudo-random numbers so identical settings reproduce identical output.
+ * Groups related functionality:
+ * - Seed normalization to a 32-bit integer
+ * - Mulberry32 generator returning floats in [0, 1)
+ */
+
+export const DEFAULT_SEED = 1;
+
+// Random generator: Mulberry32, small and fast with a full 2^32 period
+export const createRandom = (seed: number = DEFAULT_SEED): (() => number) => {
+  let state = Math.floor(Number.isFinite(seed) ? seed : DEFAULT_SEED) >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Seed generation: Pick a fresh seed for "reshuffle" style actions
+export const createSeed = (): number => Math.floor(Math.random() * 2 ** 31);
@@ -0,0 +1,276 @@
+import { CmykChannel, LuminanceModel, SamplingMode } from "../types";
+import {
+  hexToRgb,
+  rgbToCmyk,
+  rgbToHueSaturation,
+  rgbToLightness,
+} from "./color";
+
+/**
+ * ============================================================================
+ * CELL SAMPLING UTILITIES
+ * ============================================================================
+ * Reduces the pixels covered by a grid cell to a single luminance value.
+ * Groups related functionality:
+ * - Per-pixel luminance map extraction (BT.601, BT.709, L*, channel, saturation, key hue)
+ * - Per-pixel alpha map for transparency masking
+ * - Per-pixel RGB channel maps for image-colored dots
+ * - Per-pixel CMYK ink coverage maps for color separation
+ * - Summed-area table construction for constant-time box averages
+ * - Cell samplers (center, box average, Gaussian, max, min)
+ */
+
+// Cell sampler: Returns the luminance [0-1] of the rectangle [x0, x1) x [y0, y1)
+export type CellSampler = (
+  x0: number,
+  y0: number,
+  x1: number,
+  y1: number
+) => number;
+
+// Luminance map extraction: Convert RGBA bytes to the per-pixel value that drives dot size
+export const createLuminanceMap = (
+  pixelData: Uint8ClampedArray,
+  width: number,
+  height: number,
+  model: LuminanceModel = "bt601",
+  keyColor = "#ff0000"
+): Float32Array => {
+  const map = new Float32Array(width * height);
+  const key = hexToRgb(keyColor) ?? { r: 255, g: 0, b: 0 };
+  const keyHue = rgbToHueSaturation(key.r, key.g, key.b).h;
+
+  for (let i = 0; i < map.length; i++) {
+    const p = i * 4;
+    const r = pixelData[p];
+    const g = pixelData[p + 1];
+    const b = pixelData[p + 2];
+
+    switch (model) {
+      case "bt709":
+        map[i] = (0.2126 * r + 0.7152 * g + 0.0722 * b) / 255;
+        break;
+      case "lightness":
+        map[i] = rgbToLightness(r, g, b);
+        break;
+      case "red":
+        map[i] = r / 255;
+        break;
+      case "green":
+        map[i] = g / 255;
+        break;
+      case "blue":
+        map[i] = b / 255;
+        break;
+      case "alpha":
+        map[i] = pixelData[p + 3] / 255;
+        break;
+      case "saturation":
+        map[i] = rgbToHueSaturation(r, g, b).s;
+        break;
+      case "key": {
+        // Key distance: Pixels close in hue to the key color read bright, greys read dark
+        const { h, s } = rgbToHueSaturation(r, g, b);
+        const distance = Math.abs(h - keyHue);
+        const hueDistance = Math.min(distance, 360 - distance);
+        map[i] = (1 - hueDistance / 180) * s;
+        break;
+      }
+      case "bt601":
+      default:
+        map[i] = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
+    }
+  }
+  return map;
+};
+
+// Alpha map extraction: Per-pixel opacity [0-1]
+export const createAlphaMap = (
+  pixelData: Uint8ClampedArray,
+  width: number,
+  height: number
+): Float32Array => {
+  const map = new Float32Array(width * height);
+  for (let i = 0; i < map.length; i++) {
+    map[i] = pixelData[i * 4 + 3] / 255;
+  }
+  return map;
+};
+
+// RGB map extraction: Split RGBA bytes into one [0-1] map per color channel
+export const createRgbMaps = (
+  pixelData: Uint8ClampedArray,
+  width: number,
+  height: number
+): { r: Float32Array; g: Float32Array; b: Float32Array } => {
+  const size = width * height;
+  const maps = {
+    r: new Float32Array(size),
+    g: new Float32Array(size),
+    b: new Float32Array(size),
+  };
+  for (let i = 0; i < size; i++) {
+    const p = i * 4;
+    maps.r[i] = pixelData[p] / 255;
+    maps.g[i] = pixelData[p + 1] / 255;
+    maps.b[i] = pixelData[p + 2] / 255;
+  }
+  return maps;
+};
+
+// CMYK map extraction: Split RGBA bytes into one ink coverage map per plate
+export const createCmykMaps = (
+  pixelData: Uint8ClampedArray,
+  width: number,
+  height: number
+): Record<CmykChannel, Float32Array> => {
+  const size = width * height;
+  const maps = {
+    cyan: new Float32Array(size),
+    magenta: new Float32Array(size),
+    yellow: new Float32Array(size),
+    black: new Float32Array(size),
+  };
+  for (let i = 0; i < size; i++) {
+    const p = i * 4;
+    const { c, m, y, k } = rgbToCmyk(
+      pixelData[p],
+      pixelData[p + 1],
+      pixelData[p + 2]
+    );
+    maps.cyan[i] = c;
+    maps.magenta[i] = m;
+    maps.yellow[i] = y;
+    maps.black[i] = k;
+  }
+  return maps;
+};
+
+// Summed-area table: Entry (x, y) holds the sum of all values above and left of it.
+// The table has one extra row and column of zeros so lookups need no bounds checks.
+export const createSummedAreaTable = (
+  values: Float32Array,
+  width: number,
+  height: number
+): Float64Array => {
+  const stride = width + 1;
+  const table = new Float64Array(stride * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += values[y * width + x];
+      table[(y + 1) * stride + x + 1] = table[y * stride + x + 1] + rowSum;
+    }
+  }
+  return table;
+};
+
+// Cell bounds: Clamp a fractional cell rectangle to whole pixels inside the image,
+// always covering at least one pixel so tiny cells still sample something
+const toPixelBounds = (
+  x0: number,
+  y0: number,
+  x1: number,
+  y1: number,
+  width: number,
+  height: number
+) => {
+  const left = Math.min(width - 1, Math.max(0, Math.floor(x0)));
+  const top = Math.min(height - 1, Math.max(0, Math.floor(y0)));
+  const right = Math.min(width, Math.max(left + 1, Math.ceil(x1)));
+  const bottom = Math.min(height, Math.max(top + 1, Math.ceil(y1)));
+  return { left, top, right, bottom };
+};
+
+export const createCellSampler = (
+  values: Float32Array,
+  width: number,
+  height: number,
+  mode: SamplingMode
+): CellSampler => {
+  switch (mode) {
+    case "average": {
+      // Box average: Four table lookups per cell regardless of cell size
+      const table = createSummedAreaTable(values, width, height);
+      const stride = width + 1;
+      return (x0, y0, x1, y1) => {
+        const { left, top, right, bottom } = toPixelBounds(
+          x0,
+          y0,
+          x1,
+          y1,
+          width,
+          height
+        );
+        const sum =
+          table[bottom * stride + right] -
+          table[top * stride + right] -
+          table[bottom * stride + left] +
+          table[top * stride + left];
+        return sum / ((right - left) * (bottom - top));
+      };
+    }
+    case "gaussian": {
+      // Gaussian weighting: Sigma of a third of the half-cell keeps the edges near zero weight
+      return (x0, y0, x1, y1) => {
+        const { left, top, right, bottom } = toPixelBounds(
+          x0,
+          y0,
+          x1,
+          y1,
+          width,
+          height
+        );
+        const cx = (x0 + x1) / 2;
+        const cy = (y0 + y1) / 2;
+        const sigmaX = Math.max(0.5, (x1 - x0) / 6);
+        const sigmaY = Math.max(0.5, (y1 - y0) / 6);
+        let weighted = 0;
+        let totalWeight = 0;
+        for (let y = top; y < bottom; y++) {
+          const dy = (y + 0.5 - cy) / sigmaY;
+          for (let x = left; x < right; x++) {
+            const dx = (x + 0.5 - cx) / sigmaX;
+            const weight = Math.exp(-0.5 * (dx * dx + dy * dy));
+            weighted += values[y * width + x] * weight;
+            totalWeight += weight;
+          }
+        }
+        return totalWeight > 0 ? weighted / totalWeight : 0;
+      };
+    }
+    case "max":
+    case "min": {
+      // Extremum sampling: Keep the brightest or darkest pixel in the cell
+      const pickMax = mode === "max";
+      return (x0, y0, x1, y1) => {
+        const { left, top, right, bottom } = toPixelBounds(
+          x0,
+          y0,
+          x1,
+          y1,
+          width,
+          height
+        );
+        let result = pickMax ? 0 : 1;
+        for (let y = top; y < bottom; y++) {
+          for (let x = left; x < right; x++) {
+            const value = values[y * width + x];
+            result = pickMax
+              ? Math.max(result, value)
+              : Math.min(result, value);
+          }
+        }
+        return result;
+      };
+    }
+    case "center":
+    default:
+      // Center sampling: Read the single pixel under the cell center
+      return (x0, y0, x1, y1) => {
+        const x = Math.min(width - 1, Math.max(0, Math.floor((x0 + x1) / 2)));
+        const y = Math.min(height - 1, Math.max(0, Math.floor((y0 + y1) / 2)));
+        return values[y * width + x];
+      };
+  }
+};
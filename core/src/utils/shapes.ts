@@ -0,0 +1,224 @@
+import { CustomStamp, DotShape } from "../types";
+
+/**
+ * ============================================================================
+ * DOT SHAPE GEOMETRY
+ * ============================================================================
+ * Builds outline paths for dot shapes whose geometry depends on the dot itself.
+ * Groups related functionality:
+ * - Euclidean dot morphing (round -> diamond -> inverted round) by coverage
+ * - Polygon outlines for the built-in diamond, triangle, hexagon, star and line shapes
+ * - Polygon path formatting and parsing shared by SVG, canvas and Lottie
+ * - Custom path and bitmap stamps: parsing and per-dot placement
+ */
+
+type Point = [number, number];
+
+// Samples per quarter of a curved outline
+const QUARTER_STEPS = 8;
+// Star inner radius as a fraction of the outer radius
+const STAR_INNER_RATIO = 0.45;
+// Line segment thickness as a fraction of its length
+const LINE_THICKNESS = 0.25;
+
+// Pasted path data without a viewBox is assumed to use the common 24px icon grid
+const DEFAULT_STAMP_SIZE = 24;
+// SVG id of the stamp symbol, defined once and referenced by every dot
+export const STAMP_SYMBOL_ID = "ht-stamp";
+
+export interface ShapeOptions {
+  starPoints?: number; // points of the 'star' shape (default 5)
+}
+
+// Path formatting: Closed polygons as absolute "M x,y L x,y ... Z" subpaths
+export const formatPolygonPath = (polygons: Point[][]): string =>
+  polygons
+    .filter((polygon) => polygon.length > 2)
+    .map(
+      (polygon) =>
+        `M${polygon
+          .map(([x, y]) => `${x.toFixed(2)},${y.toFixed(2)}`)
+          .join("L")}Z`
+    )
+    .join("");
+
+// Path parsing: Inverse of formatPolygonPath, for renderers that need vertices (Lottie)
+export const parsePolygonPath = (path: string): Point[][] =>
+  path
+    .split("M")
+    .filter(Boolean)
+    .map((subpath) =>
+      subpath
+        .replace("Z", "")
+        .split("L")
+        .map((point) => point.split(",").map(Number) as Point)
+    );
+
+// Superellipse quarter: |x|^p + |y|^p = r^p from angle start to start + 90°,
+// p = 2 is a circle and p = 1 a diamond
+const superellipseQuarter = (
+  cx: number,
+  cy: number,
+  radius: number,
+  exponent: number,
+  startQuadrant: number,
+  reverse = false
+): Point[] => {
+  const points: Point[] = [];
+  for (let i = 0; i <= QUARTER_STEPS; i++) {
+    const step = reverse ? QUARTER_STEPS - i : i;
+    const theta = ((startQuadrant + step / QUARTER_STEPS) * Math.PI) / 2;
+    const cos = Math.cos(theta);
+    const sin = Math.sin(theta);
+    points.push([
+      cx + radius * Math.sign(cos) * Math.pow(Math.abs(cos), 2 / exponent),
+      cy + radius * Math.sign(sin) * Math.pow(Math.abs(sin), 2 / exponent),
+    ]);
+  }
+  return points;
+};
+
+// Euclidean dot: Coverage [0-1] of a square cell with half-size h. Up to 50% a round
+// dot grows and flattens into a diamond touching the cell edges; beyond 50% the
+// paper between dots shrinks the same way, leaving inverted round holes at the corners
+export const createEuclideanDotPath = (
+  x: number,
+  y: number,
+  pitch: number,
+  coverage: number,
+  rotation = 0
+): string => {
+  const t = Math.max(0, Math.min(1, coverage));
+  const h = pitch / 2;
+  let polygon: Point[] = [];
+
+  if (t <= 0.5) {
+    const k = t / 0.5;
+    for (let quadrant = 0; quadrant < 4; quadrant++) {
+      polygon.push(
+        ...superellipseQuarter(0, 0, k * h, 2 - k, quadrant).slice(1)
+      );
+    }
+  } else {
+    const k = (1 - t) / 0.5;
+    // Corner holes: Walk the cell corners in order, cutting each with a reversed quarter
+    const corners: [Point, number][] = [
+      [[h, h], 2],
+      [[-h, h], 3],
+      [[-h, -h], 0],
+      [[h, -h], 1],
+    ];
+    corners.forEach(([[cx, cy], quadrant]) => {
+      polygon.push(
+        ...(k > 0
+          ? superellipseQuarter(cx, cy, k * h, 2 - k, quadrant, true)
+          : [[cx, cy] as Point])
+      );
+    });
+  }
+
+  // Placement: Rotate with the screen and move to the dot center
+  const rad = (rotation * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  polygon = polygon.map(([px, py]) => [
+    x + px * cos - py * sin,
+    y + px * sin + py * cos,
+  ]);
+  return formatPolygonPath([polygon]);
+};
+
+// Regular polygon: Vertices on a circle, the first one pointing up
+const regularPolygon = (
+  radius: number,
+  sides: number,
+  startAngle = -Math.PI / 2
+): Point[] =>
+  Array.from({ length: sides }, (_, i) => {
+    const theta = startAngle + (i / sides) * Math.PI * 2;
+    return [radius * Math.cos(theta), radius * Math.sin(theta)];
+  });
+
+// Shape outline: Unrotated polygon around the origin for shapes that fit a circle of
+// the dot radius; null for shapes the renderers draw natively (round, square, ellipse, glyphs)
+export const createShapePolygon = (
+  shape: DotShape,
+  size: number,
+  options: ShapeOptions = {}
+): Point[] | null => {
+  switch (shape) {
+    case "diamond":
+      return regularPolygon(size, 4);
+    case "triangle":
+      return regularPolygon(size, 3);
+    case "hexagon":
+      return regularPolygon(size, 6, 0);
+    case "star": {
+      const points = Math.max(3, Math.round(options.starPoints ?? 5));
+      // Alternate outer tips and inner notches
+      return regularPolygon(size, points * 2).map(([px, py], i) =>
+        i % 2 === 0 ? [px, py] : [px * STAR_INNER_RATIO, py * STAR_INNER_RATIO]
+      );
+    }
+    case "line": {
+      const half = size * LINE_THICKNESS;
+      return [
+        [-size, -half],
+        [size, -half],
+        [size, half],
+        [-size, half],
+      ];
+    }
+    default:
+      return null;
+  }
+};
+
+// Path stamp: Wrap pasted path data on the default icon grid
+export const createPathStamp = (data: string): CustomStamp => ({
+  kind: "path",
+  data: data.trim(),
+  width: DEFAULT_STAMP_SIZE,
+  height: DEFAULT_STAMP_SIZE,
+});
+
+// SVG stamp: Join every <path> of an uploaded icon and keep its viewBox (falling back to
+// width/height, then the icon grid); groups, transforms and other primitives are ignored
+export const parseSvgStamp = (svg: string): CustomStamp | null => {
+  const paths = Array.from(
+    svg.matchAll(/<path\b[^>]*?\sd\s*=\s*(?:"([^"]*)"|'([^']*)')/gi),
+    (match) => (match[1] ?? match[2]).trim()
+  ).filter(Boolean);
+  if (paths.length === 0) return null;
+
+  const root = svg.match(/<svg\b[^>]*>/i)?.[0] ?? "";
+  const attribute = (name: string) =>
+    root.match(new RegExp(`\\s${name}\\s*=\\s*["']([^"']+)["']`, "i"))?.[1];
+  const viewBox = (attribute("viewBox") ?? "")
+    .trim()
+    .split(/[\s,]+/)
+    .map(Number);
+  if (
+    viewBox.length === 4 &&
+    viewBox.every(Number.isFinite) &&
+    viewBox[2] > 0 &&
+    viewBox[3] > 0
+  ) {
+    const [x, y, width, height] = viewBox;
+    return { kind: "path", data: paths.join(" "), x, y, width, height };
+  }
+  const width = parseFloat(attribute("width") ?? "") || DEFAULT_STAMP_SIZE;
+  const height = parseFloat(attribute("height") ?? "") || DEFAULT_STAMP_SIZE;
+  return { kind: "path", data: paths.join(" "), width, height };
+};
+
+// Stamp placement: Uniform scale and offset that center the stamp box in a dot's
+// 2·size square, matching the default preserveAspectRatio of an SVG symbol
+export const getStampPlacement = (stamp: CustomStamp, size: number) => {
+  const scale = (size * 2) / Math.max(stamp.width, stamp.height);
+  return {
+    scale,
+    offsetX: -((stamp.x ?? 0) + stamp.width / 2) * scale,
+    offsetY: -((stamp.y ?? 0) + stamp.height / 2) * scale,
+  };
+};
@@ -0,0 +1,127 @@
+import { CurvePoint, ToneSettings } from "../types";
+
+/**
+ * ============================================================================
+ * TONE ADJUSTMENT UTILITIES
+ * ============================================================================
+ * Reshapes luminance before it drives dot generation.
+ * Groups related functionality:
+ * - Levels (black and white point remapping)
+ * - Brightness, contrast and gamma
+ * - Monotone cubic tone curve through editable control points
+ * - Composition into a single value mapper
+ */
+
+export const DEFAULT_TONE: ToneSettings = {
+  brightness: 0,
+  contrast: 0,
+  gamma: 1,
+  blackPoint: 0,
+  whitePoint: 1,
+  curve: [
+    { x: 0, y: 0 },
+    { x: 1, y: 1 },
+  ],
+};
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+// Curve preparation: Sort points, clamp to the unit square and drop duplicate x positions
+const normalizeCurve = (points: CurvePoint[]): CurvePoint[] => {
+  const sorted = points
+    .map(({ x, y }) => ({ x: clamp01(x), y: clamp01(y) }))
+    .sort((a, b) => a.x - b.x);
+  return sorted.filter((point, i) => i === 0 || point.x > sorted[i - 1].x);
+};
+
+// Curve evaluation: Fritsch–Carlson monotone cubic interpolation, so curves
+// never overshoot between control points; flat beyond the first and last point
+export const createCurveEvaluator = (
+  points: CurvePoint[]
+): ((x: number) => number) => {
+  const curve = normalizeCurve(points);
+  if (curve.length === 0) return (x) => clamp01(x);
+  if (curve.length === 1) return () => curve[0].y;
+
+  const n = curve.length;
+  const slopes: number[] = [];
+  for (let i = 0; i < n - 1; i++) {
+    slopes.push((curve[i + 1].y - curve[i].y) / (curve[i + 1].x - curve[i].x));
+  }
+
+  // Tangents: Average neighbouring secant slopes, zeroed at local extrema
+  const tangents: number[] = [slopes[0]];
+  for (let i = 1; i < n - 1; i++) {
+    tangents.push(
+      slopes[i - 1] * slopes[i] <= 0 ? 0 : (slopes[i - 1] + slopes[i]) / 2
+    );
+  }
+  tangents.push(slopes[n - 2]);
+
+  // Monotonicity: Scale tangents that would make a segment overshoot
+  for (let i = 0; i < n - 1; i++) {
+    if (slopes[i] === 0) {
+      tangents[i] = 0;
+      tangents[i + 1] = 0;
+      continue;
+    }
+    const a = tangents[i] / slopes[i];
+    const b = tangents[i + 1] / slopes[i];
+    const magnitude = a * a + b * b;
+    if (magnitude > 9) {
+      const scale = 3 / Math.sqrt(magnitude);
+      tangents[i] = scale * a * slopes[i];
+      tangents[i + 1] = scale * b * slopes[i];
+    }
+  }
+
+  return (x: number) => {
+    if (x <= curve[0].x) return curve[0].y;
+    if (x >= curve[n - 1].x) return curve[n - 1].y;
+
+    let i = 0;
+    while (x > curve[i + 1].x) i++;
+
+    const h = curve[i + 1].x - curve[i].x;
+    const t = (x - curve[i].x) / h;
+    const t2 = t * t;
+    const t3 = t2 * t;
+    return clamp01(
+      (2 * t3 - 3 * t2 + 1) * curve[i].y +
+        (t3 - 2 * t2 + t) * h * tangents[i] +
+        (-2 * t3 + 3 * t2) * curve[i + 1].y +
+        (t3 - t2) * h * tangents[i + 1]
+    );
+  };
+};
+
+// Tone mapper: Levels -> brightness -> contrast -> gamma -> curve, each clamped to [0-1]
+export const createToneMapper = (
+  tone: Partial<ToneSettings> = {}
+): ((value: number) => number) => {
+  const {
+    brightness,
+    contrast,
+    gamma,
+    blackPoint,
+    whitePoint,
+    curve: curvePoints,
+  } = { ...DEFAULT_TONE, ...tone };
+
+  const range = Math.max(1e-6, whitePoint - blackPoint);
+  // Contrast slope: tan maps [-1, 1) to a slope of [0, ∞), 0 leaves the value unchanged
+  const contrastSlope =
+    contrast === 0
+      ? 1
+      : Math.tan(((Math.max(-1, Math.min(0.99, contrast)) + 1) * Math.PI) / 4);
+  const inverseGamma = 1 / Math.max(0.01, gamma);
+  const curve = createCurveEvaluator(curvePoints);
+
+  return (value: number) => {
+    let v = clamp01((value - blackPoint) / range);
+    v = clamp01(v + brightness);
+    v = clamp01((v - 0.5) * contrastSlope + 0.5);
+    v = Math.pow(v, inverseGamma);
+    return curve(v);
+  };
+};
@@ -1,14 +1,17 @@
 import React, { useEffect, useCallback, useRef } from "react";
 import { HalftoneSettings, AnimationSettings } from "../types";
-import { lerpColor } from "../utils/color";
 import { generateSvgString } from "../core/src/halftone";
 import { generateLottieAnimation } from "../core/src/lottieExport";
+import { createRandom, DEFAULT_SEED } from "../core/src/utils/random";
+import { createShapePolygon } from "../core/src/utils/shapes";
+import { createGradientColorizer } from "../core/src/utils/gradient";
 
 interface Dot {
   x: number;
   y: number;
   size: number;
   color: string;
+  level: number; // luminance that sized the dot, for luminance gradients
 }
 
 /**
@@ -44,12 +47,21 @@ export const useHalftone = (
     invert,
     useGradient,
     gradientDirection,
+    gradientType,
+    gradientStops,
+    gradientAngle,
+    gradientCenter,
+    gradientColorSpace,
+    gradientHue,
     randomness,
     color1,
     color2,
     customCharacter,
     fillPattern,
     angle,
+    seed = DEFAULT_SEED,
+    ellipseAspect = 0.5,
+    starPoints,
   } = settings;
 
   // State management: Refs for dots data, image element, and canvas dimensions
@@ -60,18 +72,41 @@ export const useHalftone = (
     height: 0,
   });
 
-  // Color computation: Calculate dot color based on gradient settings and position
+  // Color computation: Calculate dot color based on gradient settings, position and luminance
   const computeDotColor = useCallback(
-    (x: number, y: number) => {
+    (x: number, y: number, level: number) => {
       const { width, height } = canvasSizeRef.current;
       if (useGradient && width && height) {
-        const gradientPos =
-          gradientDirection === "vertical" ? y / height : x / width;
-        return lerpColor(color1, color2, gradientPos);
+        return createGradientColorizer(
+          {
+            gradientDirection,
+            gradientType,
+            gradientStops,
+            gradientAngle,
+            gradientCenter,
+            gradientColorSpace,
+            gradientHue,
+            color1,
+            color2,
+          },
+          width,
+          height
+        )(x, y, level);
       }
       return color1;
     },
-    [useGradient, gradientDirection, color1, color2]
+    [
+      useGradient,
+      gradientDirection,
+      gradientType,
+      gradientStops,
+      gradientAngle,
+      gradientCenter,
+      gradientColorSpace,
+      gradientHue,
+      color1,
+      color2,
+    ]
   );
 
   // Dot data generation: Convert image to halftone dot array
@@ -108,6 +143,7 @@ export const useHalftone = (
       );
       const data = imageData.data;
       const dots: Dot[] = [];
+      const random = createRandom(seed);
 
       // Grid calculation: Create resolution-based sampling grid
       const cols = Math.max(1, resolution);
@@ -140,8 +176,8 @@ export const useHalftone = (
           const size = baseSize * luminance;
 
           // Position randomization: Add organic variation
-          const randX = (Math.random() - 0.5) * randomness * cellWidth;
-          const randY = (Math.random() - 0.5) * randomness * cellHeight;
+          const randX = (random() - 0.5) * randomness * cellWidth;
+          const randY = (random() - 0.5) * randomness * cellHeight;
 
           const centerX = x + cellWidth / 2 + randX;
           const centerY = y + cellHeight / 2 + randY;
@@ -150,7 +186,8 @@ export const useHalftone = (
             x: centerX,
             y: centerY,
             size,
-            color: computeDotColor(centerX, centerY),
+            color: computeDotColor(centerX, centerY, luminance),
+            level: luminance,
           });
         }
       }
@@ -163,6 +200,7 @@ export const useHalftone = (
       imageBlur,
       invert,
       randomness,
+      seed,
       computeDotColor,
     ]
   );
@@ -237,6 +275,35 @@ export const useHalftone = (
             ctx.rect(-dot.size, -dot.size, dot.size * 2, dot.size * 2);
             ctx.fill();
             break;
+          case "ellipse":
+            ctx.beginPath();
+            ctx.ellipse(
+              0,
+              0,
+              dot.size,
+              dot.size * ellipseAspect,
+              0,
+              0,
+              Math.PI * 2
+            );
+            ctx.fill();
+            break;
+          case "diamond":
+          case "triangle":
+          case "hexagon":
+          case "star":
+          case "line": {
+            const polygon = createShapePolygon(dotShape, dot.size, {
+              starPoints,
+            })!;
+            ctx.beginPath();
+            polygon.forEach(([px, py], i) =>
+              i === 0 ? ctx.moveTo(px, py) : ctx.lineTo(px, py)
+            );
+            ctx.closePath();
+            ctx.fill();
+            break;
+          }
           case "plus":
           case "custom": {
             const char = dotShape === "plus" ? "+" : customCharacter || "*";
@@ -251,7 +318,17 @@ export const useHalftone = (
         ctx.restore();
       });
     },
-    [canvasRef, dotShape, customCharacter, fillPattern, color1, color2, angle]
+    [
+      canvasRef,
+      dotShape,
+      customCharacter,
+      fillPattern,
+      color1,
+      color2,
+      angle,
+      ellipseAspect,
+      starPoints,
+    ]
   );
 
   // Dot regeneration: Regenerate dots when image or core settings change
@@ -267,7 +344,7 @@ export const useHalftone = (
     const { width, height } = getSafeCanvasSize(canvasRef.current);
     dotsRef.current = dotsRef.current.map((dot) => ({
       ...dot,
-      color: computeDotColor(dot.x, dot.y),
+      color: computeDotColor(dot.x, dot.y, dot.level),
     }));
     // Ensure we have the latest canvas bounds for gradient calculation.
     if (width && height) {
@@ -311,14 +388,35 @@ export const useHalftone = (
   useEffect(() => {
     if (!imageElementRef.current) return;
     regenerateDots();
-  }, [resolution, dotSize, imageBlur, invert, randomness, regenerateDots]);
+  }, [
+    resolution,
+    dotSize,
+    imageBlur,
+    invert,
+    randomness,
+    seed,
+    regenerateDots,
+  ]);
 
   // Recoloring effect: Update colors when gradient/color settings change
   useEffect(() => {
     if (!dotsRef.current.length) return;
     recolorDots();
     drawCanvas(dotsRef.current);
-  }, [recolorDots, drawCanvas, useGradient, gradientDirection, color1, color2]);
+  }, [
+    recolorDots,
+    drawCanvas,
+    useGradient,
+    gradientDirection,
+    gradientType,
+    gradientStops,
+    gradientAngle,
+    gradientCenter,
+    gradientColorSpace,
+    gradientHue,
+    color1,
+    color2,
+  ]);
 
   // Visual update effect: Redraw canvas when visual properties change
   useEffect(() => {
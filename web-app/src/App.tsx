@@ -26,12 +26,49 @@ const App: React.FC = () => {
     invert: false,
     useGradient: false,
     gradientDirection: "vertical",
+    gradientType: "linear",
+    gradientStops: [],
+    gradientAngle: 90,
+    gradientCenter: { x: 0.5, y: 0.5 },
+    gradientColorSpace: "srgb",
+    gradientHue: "shorter",
     randomness: 0,
     color1: "#ffffff",
     color2: "#000000",
     customCharacter: "*",
     fillPattern: "solid",
     angle: 0,
+    samplingMode: "center",
+    screenAngle: 0,
+    gridType: "square",
+    seed: 1,
+    separation: "none",
+    method: "amplitude",
+    sizeLevels: 0,
+    sizeLevelDither: false,
+    stippleIterations: 20,
+    edgeMode: "none",
+    edgeDetector: "sobel",
+    edgeStrength: 0.5,
+    edgeThreshold: 0.25,
+    dotGain: 0,
+    printWidth: 210,
+    minDotDiameter: 0,
+    maxDotDiameter: 0,
+    minDotGap: 0,
+    ellipseAspect: 0.5,
+    starPoints: 5,
+    asciiRamp: " .:-=+*#%@",
+    lineStyle: "none",
+    colorMode: "palette",
+    paletteMethod: "median-cut",
+    paletteSize: 4,
+    paletteColors: [],
+    colorSaturation: 1,
+    colorLevels: 0,
+    alphaMask: true,
+    alphaThreshold: 0.5,
+    alphaCoverage: false,
   });
   const [animationSettings, setAnimationSettings] = useState<AnimationSettings>(
     {
@@ -64,7 +101,14 @@ const App: React.FC = () => {
     [showToast]
   );
 
-  const { getSvgString, getLottieJson, svgString } = useHalftone(
+  const {
+    getSvgString,
+    getLottieJson,
+    getAsciiText,
+    getAsciiHtml,
+    svgString,
+    stippleProgress,
+  } = useHalftone(
     canvasRef,
     imageSrc,
     settings,
@@ -168,6 +212,36 @@ const App: React.FC = () => {
     }
   };
 
+  const handleCopyText = async () => {
+    if (!imageSrc) return;
+    const text = getAsciiText();
+    if (text) {
+      try {
+        await navigator.clipboard.writeText(text);
+        showToast("Text copied to clipboard!", "success");
+      } catch (err) {
+        console.error("Failed to copy text: ", err);
+        showToast("Failed to copy text.", "error");
+      }
+    }
+  };
+
+  const handleExportHtml = () => {
+    if (!imageSrc) return;
+    const html = getAsciiHtml();
+    if (!html) return;
+    const blob = new Blob([html], { type: "text/html" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "halftone-ascii.html";
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+    showToast("HTML exported!", "success");
+  };
+
   const handleExportLottie = useCallback(() => {
     // #region agent log
     fetch("http://127.0.0.1:7243/ingest/21c232fd-26c5-4764-b154-b9e39ee6344b", {
@@ -270,7 +344,7 @@ const App: React.FC = () => {
 
   return (
     <div className="h-screen bg-gray-900 text-gray-200 grid grid-cols-[1fr_384px] font-sans">
-      <main className="flex items-center justify-center overflow-hidden">
+      <main className="relative flex items-center justify-center overflow-hidden">
         <div className="w-full h-full max-w-full max-h-full">
           <CanvasDisplay
             canvasRef={canvasRef}
@@ -283,6 +357,11 @@ const App: React.FC = () => {
             animationSettings={animationSettings}
           />
         </div>
+        {stippleProgress !== null && (
+          <div className="absolute top-3 left-3 px-2.5 py-1 text-xs rounded bg-gray-800/90 text-gray-300 border border-gray-700/50">
+            Stippling… {Math.round(stippleProgress * 100)}%
+          </div>
+        )}
       </main>
       <aside className="border-l border-gray-700/50">
         <ControlsPanel
@@ -290,6 +369,8 @@ const App: React.FC = () => {
           onSettingsChange={handleSettingsChange}
           onImageUpload={handleImageUpload}
           onCopySvg={handleCopySvg}
+          onCopyText={handleCopyText}
+          onExportHtml={handleExportHtml}
           onExportLottie={handleExportLottie}
           hasImage={!!imageSrc}
           animationSettings={animationSettings}
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { generateDotsData } from '../../../core/src/halftone';
+import { createAlphaMap } from '../../../core/src/utils/sampling';
+import type { HalftoneSettings } from '../../../core/src/types';
+
+const baseSettings: HalftoneSettings = {
+  resolution: 4,
+  dotSize: 1,
+  dotShape: 'round',
+  imageBlur: 0,
+  invert: false,
+  useGradient: false,
+  gradientDirection: 'vertical',
+  randomness: 0,
+  color1: '#ffffff',
+  color2: '#000000',
+  customCharacter: '*',
+  fillPattern: 'solid',
+  angle: 0,
+};
+
+// 16x8 white image: opaque left half, 25% opaque third quarter, transparent last quarter
+const createTransparentImage = () => {
+  const width = 16;
+  const height = 8;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const alpha = x < 8 ? 255 : x < 12 ? 64 : 0;
+      data.set([255, 255, 255, alpha], (y * width + x) * 4);
+    }
+  }
+  return { data, width, height };
+};
+
+describe('createAlphaMap', () => {
+  it('reads per-pixel opacity', () => {
+    const map = createAlphaMap(new Uint8ClampedArray([0, 0, 0, 255, 0, 0, 0, 51]), 2, 1);
+    expect(map[0]).toBe(1);
+    expect(map[1]).toBeCloseTo(0.2, 5);
+  });
+});
+
+describe('generateDotsData alpha handling', () => {
+  it('ignores alpha by default', () => {
+    const { data, width, height } = createTransparentImage();
+    expect(generateDotsData(data, width, height, baseSettings)).toHaveLength(8);
+  });
+
+  it('skips cells below the alpha threshold when masking', () => {
+    const { data, width, height } = createTransparentImage();
+    const masked = generateDotsData(data, width, height, { ...baseSettings, alphaMask: true });
+    expect(masked).toHaveLength(4);
+    masked.forEach((dot) => expect(dot.x).toBeLessThan(8));
+
+    const lenient = generateDotsData(data, width, height, {
+      ...baseSettings,
+      alphaMask: true,
+      alphaThreshold: 0.2,
+    });
+    expect(lenient).toHaveLength(6);
+  });
+
+  it('multiplies dot size by cell opacity', () => {
+    const { data, width, height } = createTransparentImage();
+    const dots = generateDotsData(data, width, height, { ...baseSettings, alphaCoverage: true });
+    const sizes = dots.filter((dot) => dot.y === 2).map((dot) => dot.size);
+    expect(sizes[0]).toBeCloseTo(2, 5);
+    expect(sizes[2]).toBeCloseTo(2 * (64 / 255), 5);
+    expect(sizes[3]).toBe(0);
+  });
+});
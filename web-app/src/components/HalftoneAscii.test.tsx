@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { generateDotsData, generateSvgString } from '../../../core/src/halftone';
+import {
+  createAsciiGrid,
+  generateAsciiHtml,
+  generateAsciiText,
+} from '../../../core/src/ascii';
+import type { HalftoneSettings } from '../../../core/src/types';
+
+const baseSettings: HalftoneSettings = {
+  resolution: 4,
+  dotSize: 1,
+  dotShape: 'round',
+  imageBlur: 0,
+  invert: false,
+  useGradient: false,
+  gradientDirection: 'vertical',
+  randomness: 0,
+  color1: '#ffffff',
+  color2: '#000000',
+  customCharacter: '*',
+  fillPattern: 'solid',
+  angle: 0,
+  method: 'ascii',
+  asciiRamp: ' .o@',
+};
+
+// 24x40 image: four vertical bands from black to white, one per character column
+const createBandImage = () => {
+  const width = 24;
+  const height = 40;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = Math.floor(x / 6) * 85;
+      data.set([value, value, value, 255], (y * width + x) * 4);
+    }
+  }
+  return { data, width, height };
+};
+
+describe('createAsciiGrid', () => {
+  it('makes cells taller than wide for monospace glyphs', () => {
+    expect(createAsciiGrid(24, 40, 4)).toEqual({ cols: 4, rows: 4, cellWidth: 6, cellHeight: 10 });
+  });
+});
+
+describe('ascii method', () => {
+  it('picks ramp characters by luminance at a fixed font size', () => {
+    const { data, width, height } = createBandImage();
+    const dots = generateDotsData(data, width, height, baseSettings);
+    // The black column maps to the blank character and is skipped
+    expect(dots).toHaveLength(12);
+    expect(dots.slice(0, 3).map((dot) => dot.char)).toEqual(['.', 'o', '@']);
+    dots.forEach((dot) => expect(dot.size * 3).toBeCloseTo(10, 5));
+  });
+
+  it('follows invert', () => {
+    const { data, width, height } = createBandImage();
+    const dots = generateDotsData(data, width, height, { ...baseSettings, invert: true });
+    expect(dots.slice(0, 3).map((dot) => dot.char)).toEqual(['@', 'o', '.']);
+  });
+
+  it('renders upright monospace text in SVG', () => {
+    const { data, width, height } = createBandImage();
+    const settings: HalftoneSettings = { ...baseSettings, dotShape: 'square', angle: 45 };
+    const dots = generateDotsData(data, width, height, settings);
+    const svg = generateSvgString(dots, width, height, settings);
+    expect(svg.match(/<text /g)).toHaveLength(12);
+    expect(svg).toContain('font-family="monospace"');
+    expect(svg).toContain('>@</text>');
+    expect(svg).not.toContain('rotate(');
+  });
+
+  it('exports plain text rows with blank cells as spaces', () => {
+    const { data, width, height } = createBandImage();
+    const dots = generateDotsData(data, width, height, baseSettings);
+    expect(generateAsciiText(dots, width, height, baseSettings)).toBe(' .o@\n .o@\n .o@\n .o@');
+  });
+
+  it('exports an HTML pre, escaping markup and coloring characters only when colors vary', () => {
+    const { data, width, height } = createBandImage();
+    const settings: HalftoneSettings = { ...baseSettings, asciiRamp: ' <&@' };
+    const dots = generateDotsData(data, width, height, settings);
+    const html = generateAsciiHtml(dots, width, height, settings);
+    expect(html).toMatch(/^<pre style="[^"]*font-family:monospace;font-size:10.00px;[^"]*color:#ffffff/);
+    expect(html).toContain(' &lt;&amp;@\n');
+    expect(html).not.toContain('<span');
+
+    const gradient = generateAsciiHtml(dots.map((dot, i) => ({ ...dot, color: i % 2 ? '#ff0000' : '#00ff00' })), width, height, settings);
+    expect(gradient).toContain('<span style="color:#ff0000">');
+  });
+});
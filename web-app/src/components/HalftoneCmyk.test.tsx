@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_CMYK_PLATES,
+  generateCmykLayers,
+  generateDotsData,
+  generateSvgString,
+} from '../../../core/src/halftone';
+import { rgbToCmyk } from '../../../core/src/utils/color';
+import type { HalftoneSettings } from '../../../core/src/types';
+
+const baseSettings: HalftoneSettings = {
+  resolution: 4,
+  dotSize: 1,
+  dotShape: 'round',
+  imageBlur: 0,
+  invert: false,
+  useGradient: false,
+  gradientDirection: 'vertical',
+  randomness: 0,
+  color1: '#ffffff',
+  color2: '#000000',
+  customCharacter: '*',
+  fillPattern: 'solid',
+  angle: 0,
+  separation: 'cmyk',
+};
+
+const createSolidImage = (width: number, height: number, rgb: [number, number, number]) => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    data.set([...rgb, 255], i * 4);
+  }
+  return data;
+};
+
+describe('rgbToCmyk', () => {
+  it('separates primaries and black', () => {
+    expect(rgbToCmyk(0, 255, 255)).toEqual({ c: 1, m: 0, y: 0, k: 0 });
+    expect(rgbToCmyk(255, 255, 255)).toEqual({ c: 0, m: 0, y: 0, k: 0 });
+    expect(rgbToCmyk(0, 0, 0)).toEqual({ c: 0, m: 0, y: 0, k: 1 });
+  });
+});
+
+describe('generateCmykLayers', () => {
+  it('returns one multiply layer per enabled plate with its own ink', () => {
+    const data = createSolidImage(40, 40, [0, 255, 255]);
+    const layers = generateCmykLayers(data, 40, 40, baseSettings);
+
+    expect(layers.map((layer) => layer.id)).toEqual(['cyan', 'magenta', 'yellow', 'black']);
+    layers.forEach((layer) => expect(layer.blendMode).toBe('multiply'));
+
+    const [cyan, magenta] = layers;
+    expect(cyan.dots.every((dot) => dot.color === '#00ffff' && dot.layer === 'cyan')).toBe(true);
+    // Pure cyan source: full coverage on the cyan plate, none on magenta
+    expect(Math.max(...cyan.dots.map((dot) => dot.size))).toBeCloseTo(5, 5);
+    expect(Math.max(...magenta.dots.map((dot) => dot.size))).toBeCloseTo(0, 5);
+  });
+
+  it('skips disabled plates', () => {
+    const data = createSolidImage(40, 40, [0, 0, 0]);
+    const layers = generateCmykLayers(data, 40, 40, {
+      ...baseSettings,
+      cmykPlates: DEFAULT_CMYK_PLATES.map((plate) => ({
+        ...plate,
+        enabled: plate.channel === 'black',
+      })),
+    });
+    expect(layers.map((layer) => layer.id)).toEqual(['black']);
+  });
+});
+
+describe('generateSvgString with separated plates', () => {
+  it('emits one multiply-blended group per plate', () => {
+    const data = createSolidImage(40, 40, [80, 120, 200]);
+    const dots = generateDotsData(data, 40, 40, baseSettings);
+    const svg = generateSvgString(dots, 40, 40, baseSettings);
+
+    ['cyan', 'magenta', 'yellow', 'black'].forEach((plate) => {
+      expect(svg).toContain(`<g id="plate-${plate}" data-plate="${plate}" style="mix-blend-mode:multiply">`);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { generateDotsData, generateSvgString } from '../../../core/src/halftone';
+import { generateLottieAnimation } from '../../../core/src/lottieExport';
+import { adjustColor } from '../../../core/src/utils/color';
+import type { HalftoneSettings } from '../../../core/src/types';
+
+const baseSettings: HalftoneSettings = {
+  resolution: 2,
+  dotSize: 1,
+  dotShape: 'round',
+  imageBlur: 0,
+  invert: false,
+  useGradient: false,
+  gradientDirection: 'vertical',
+  randomness: 0,
+  color1: '#ffffff',
+  color2: '#000000',
+  customCharacter: '*',
+  fillPattern: 'solid',
+  angle: 0,
+};
+
+// 8x4 image: left cell pure red, right cell a mix of blue and green pixels
+const createColorImage = () => {
+  const width = 8;
+  const height = 4;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const rgb = x < 4 ? [255, 0, 0] : x % 2 === 0 ? [0, 0, 255] : [0, 255, 0];
+      data.set([...rgb, 255], (y * width + x) * 4);
+    }
+  }
+  return { data, width, height };
+};
+
+describe('adjustColor', () => {
+  it('boosts or removes saturation around the grey value', () => {
+    expect(adjustColor(200, 100, 100)).toBe('#c86464');
+    expect(adjustColor(200, 100, 100, 0)).toBe('#828282');
+    expect(adjustColor(200, 100, 100, 2)).toBe('#ff4646');
+  });
+
+  it('quantizes each channel to the given number of levels', () => {
+    expect(adjustColor(200, 100, 30, 1, 2)).toBe('#ff0000');
+    expect(adjustColor(200, 100, 30, 1, 3)).toBe('#ff8000');
+  });
+});
+
+describe('image color mode', () => {
+  beforeEach(() => {
+    // Lottie export posts debug logs; keep the test offline
+    vi.stubGlobal('fetch', vi.fn(() => Promise.resolve(new Response())));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('keeps palette colors by default', () => {
+    const { data, width, height } = createColorImage();
+    const dots = generateDotsData(data, width, height, baseSettings);
+    dots.forEach((dot) => expect(dot.color).toBe('#ffffff'));
+  });
+
+  it('colors each dot with the averaged source color of its cell', () => {
+    const { data, width, height } = createColorImage();
+    const [red, mixed] = generateDotsData(data, width, height, {
+      ...baseSettings,
+      colorMode: 'image',
+    });
+    expect(red.color).toBe('#ff0000');
+    expect(mixed.color).toBe('#008080');
+  });
+
+  it('carries sampled colors into SVG and Lottie exports', () => {
+    const { data, width, height } = createColorImage();
+    const settings: HalftoneSettings = { ...baseSettings, colorMode: 'image' };
+    const dots = generateDotsData(data, width, height, settings);
+
+    const svg = generateSvgString(dots, width, height, settings);
+    expect(svg).toContain('fill="#ff0000"');
+    expect(svg).toContain('fill="#008080"');
+
+    const lottie = generateLottieAnimation(dots, width, height, settings);
+    const fills = lottie.layers.map(
+      (layer: any) => layer.shapes[0].it.find((item: any) => item.ty === 'fl').c.k
+    );
+    expect(fills).toContainEqual([1, 0, 0]);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import {
+  hslToRgb,
+  lerpColor,
+  oklabToRgb,
+  rgbToHsl,
+  rgbToOklab,
+} from '../../../core/src/utils/color';
+import { createGradientColorizer } from '../../../core/src/utils/gradient';
+import type { HalftoneSettings } from '../../../core/src/types';
+
+const baseSettings: HalftoneSettings = {
+  resolution: 4,
+  dotSize: 1,
+  dotShape: 'round',
+  imageBlur: 0,
+  invert: false,
+  useGradient: true,
+  gradientDirection: 'horizontal',
+  randomness: 0,
+  color1: '#0000ff',
+  color2: '#ffff00',
+  customCharacter: '*',
+  fillPattern: 'solid',
+  angle: 0,
+};
+
+describe('color space conversion', () => {
+  it('matches the reference OKLab coordinates of the sRGB primaries', () => {
+    const red = rgbToOklab(255, 0, 0);
+    expect(red[0]).toBeCloseTo(0.627955, 5);
+    expect(red[1]).toBeCloseTo(0.224863, 5);
+    expect(red[2]).toBeCloseTo(0.125846, 5);
+    const blue = rgbToOklab(0, 0, 255);
+    expect(blue[0]).toBeCloseTo(0.452014, 5);
+    expect(blue[1]).toBeCloseTo(-0.032457, 5);
+    expect(blue[2]).toBeCloseTo(-0.311528, 5);
+    const white = rgbToOklab(255, 255, 255);
+    expect(white[0]).toBeCloseTo(1, 5);
+    expect(white[1]).toBeCloseTo(0, 5);
+    expect(white[2]).toBeCloseTo(0, 5);
+  });
+
+  it('round-trips sRGB through OKLab and HSL', () => {
+    [
+      [255, 128, 0],
+      [12, 200, 180],
+      [90, 40, 160],
+    ].forEach(([r, g, b]) => {
+      oklabToRgb(...rgbToOklab(r, g, b)).forEach((channel, i) =>
+        expect(channel).toBeCloseTo([r, g, b][i], 3)
+      );
+      hslToRgb(...rgbToHsl(r, g, b)).forEach((channel, i) =>
+        expect(channel).toBeCloseTo([r, g, b][i], 6)
+      );
+    });
+    expect(rgbToHsl(255, 128, 0)[0]).toBeCloseTo(30.1, 1);
+  });
+});
+
+describe('lerpColor color spaces', () => {
+  it('keeps raw sRGB byte interpolation by default', () => {
+    expect(lerpColor('#0000ff', '#ffff00', 0.5)).toBe('#808080');
+    expect(lerpColor('#000000', '#ffffff', 0.25)).toBe('#404040');
+  });
+
+  it('blends light rather than encoded values in linear RGB', () => {
+    // Half the light of white encodes to 188 in sRGB
+    expect(lerpColor('#000000', '#ffffff', 0.5, 'linear-rgb')).toBe('#bcbcbc');
+    expect(lerpColor('#ff0000', '#00ff00', 0.5, 'linear-rgb')).toBe('#bcbc00');
+  });
+
+  it('avoids the grey midpoint of blue to yellow in OKLab', () => {
+    expect(lerpColor('#0000ff', '#ffff00', 0.5, 'oklab')).toBe('#6cabc7');
+    expect(lerpColor('#ffffff', '#0000ff', 0.5, 'oklab')).toBe('#74a3ff');
+  });
+
+  it('travels the shorter or longer way around the OKLCH hue circle', () => {
+    // Red (hue 29°) to blue (hue 264°): through purple, or through green
+    expect(lerpColor('#ff0000', '#0000ff', 0.5, 'oklch')).toBe('#ba00c2');
+    expect(lerpColor('#ff0000', '#0000ff', 0.5, 'oklch', 'longer')).toBe('#009300');
+    // White has no hue, so the blend keeps blue's hue like OKLab does
+    expect(lerpColor('#ffffff', '#0000ff', 0.5, 'oklch')).toBe('#74a3ff');
+  });
+
+  it('travels the shorter or longer way around the HSL hue circle', () => {
+    expect(lerpColor('#ff0000', '#0000ff', 0.5, 'hsl')).toBe('#ff00ff');
+    expect(lerpColor('#ff0000', '#0000ff', 0.5, 'hsl', 'longer')).toBe('#00ff00');
+    expect(lerpColor('#808080', '#ff0000', 0.5, 'hsl')).toBe('#bf4040');
+  });
+
+  it('returns the end colors exactly in every space', () => {
+    (['srgb', 'linear-rgb', 'oklab', 'oklch', 'hsl'] as const).forEach((space) => {
+      expect(lerpColor('#3366cc', '#ffcc00', 0, space)).toBe('#3366cc');
+      expect(lerpColor('#3366cc', '#ffcc00', 1, space)).toBe('#ffcc00');
+    });
+  });
+});
+
+describe('gradient color space', () => {
+  it('blends gradient stops in the selected space', () => {
+    const srgb = createGradientColorizer(baseSettings, 100, 100);
+    const oklab = createGradientColorizer(
+      { ...baseSettings, gradientColorSpace: 'oklab' },
+      100,
+      100
+    );
+    expect(srgb(50, 0)).toBe('#808080');
+    expect(oklab(50, 0)).toBe('#6cabc7');
+  });
+});
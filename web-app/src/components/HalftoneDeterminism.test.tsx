@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { generateDotsData, generateSvgString } from '../../../core/src/halftone';
+import { generateLottieAnimation } from '../../../core/src/lottieExport';
+import { createRandom } from '../../../core/src/utils/random';
+import type { HalftoneSettings } from '../../../core/src/types';
+
+const baseSettings: HalftoneSettings = {
+  resolution: 12,
+  dotSize: 1,
+  dotShape: 'round',
+  imageBlur: 0,
+  invert: false,
+  useGradient: false,
+  gradientDirection: 'vertical',
+  randomness: 0.8,
+  color1: '#ffffff',
+  color2: '#000000',
+  customCharacter: '*',
+  fillPattern: 'solid',
+  angle: 0,
+  seed: 42,
+};
+
+// 48x48 horizontal ramp so dot sizes vary across the frame
+const createRampImage = () => {
+  const width = 48;
+  const height = 48;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const value = Math.round((x / (width - 1)) * 255);
+      data.set([value, value, value, 255], i);
+    }
+  }
+  return { data, width, height };
+};
+
+describe('createRandom', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const a = createRandom(7);
+    const b = createRandom(7);
+    const c = createRandom(8);
+    const seqA = Array.from({ length: 5 }, a);
+    expect(Array.from({ length: 5 }, b)).toEqual(seqA);
+    expect(Array.from({ length: 5 }, c)).not.toEqual(seqA);
+    seqA.forEach((value) => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+});
+
+describe('seeded halftone output', () => {
+  beforeEach(() => {
+    // Lottie export posts debug logs; keep the test offline
+    vi.stubGlobal('fetch', vi.fn(() => Promise.resolve(new Response())));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('produces byte-identical SVG and Lottie for the same image, settings and seed', () => {
+    const { data, width, height } = createRampImage();
+    const first = generateDotsData(data, width, height, baseSettings);
+    const second = generateDotsData(data, width, height, { ...baseSettings });
+
+    expect(generateSvgString(second, width, height, baseSettings)).toBe(
+      generateSvgString(first, width, height, baseSettings)
+    );
+    expect(JSON.stringify(generateLottieAnimation(second, width, height, baseSettings))).toBe(
+      JSON.stringify(generateLottieAnimation(first, width, height, baseSettings))
+    );
+  });
+
+  it('reshuffles jitter when the seed changes', () => {
+    const { data, width, height } = createRampImage();
+    const first = generateDotsData(data, width, height, baseSettings);
+    const reshuffled = generateDotsData(data, width, height, { ...baseSettings, seed: 43 });
+    expect(reshuffled.map((dot) => dot.x)).not.toEqual(first.map((dot) => dot.x));
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { generateDotsData } from '../../../core/src/halftone';
+import { DIFFUSION_KERNELS } from '../../../core/src/utils/dither';
+import type { DiffusionKernel, HalftoneSettings } from '../../../core/src/types';
+
+const baseSettings: HalftoneSettings = {
+  resolution: 20,
+  dotSize: 1,
+  dotShape: 'round',
+  imageBlur: 0,
+  invert: false,
+  useGradient: false,
+  gradientDirection: 'vertical',
+  randomness: 0,
+  color1: '#ffffff',
+  color2: '#000000',
+  customCharacter: '*',
+  fillPattern: 'solid',
+  angle: 0,
+  method: 'diffusion',
+};
+
+const createGreyImage = (width: number, height: number, value: number) => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  data.fill(value);
+  return data;
+};
+
+const kernels: DiffusionKernel[] = ['floyd-steinberg', 'atkinson', 'jarvis-judice-ninke', 'stucki'];
+
+describe('error diffusion kernels', () => {
+  it('spread the full error except Atkinson, which keeps 3/4', () => {
+    kernels.forEach((kernel) => {
+      const total = DIFFUSION_KERNELS[kernel].reduce((sum, [, , weight]) => sum + weight, 0);
+      expect(total).toBeCloseTo(kernel === 'atkinson' ? 0.75 : 1, 10);
+    });
+  });
+});
+
+describe('generateDotsData diffusion method', () => {
+  it('emits fixed-size dots whose density follows the tone', () => {
+    kernels.forEach((diffusionKernel) => {
+      const dots = generateDotsData(createGreyImage(100, 100, 128), 100, 100, {
+        ...baseSettings,
+        diffusionKernel,
+      });
+      const sizes = new Set(dots.map((dot) => dot.size));
+      expect([...sizes].every((size) => size === 0 || size === 2.5)).toBe(true);
+
+      const onRatio = dots.filter((dot) => dot.size > 0).length / dots.length;
+      expect(onRatio).toBeGreaterThan(0.4);
+      expect(onRatio).toBeLessThan(0.6);
+    });
+  });
+
+  it('turns every dot on for white and off for black', () => {
+    const white = generateDotsData(createGreyImage(40, 40, 255), 40, 40, baseSettings);
+    const black = generateDotsData(createGreyImage(40, 40, 0), 40, 40, baseSettings);
+    expect(white.every((dot) => dot.size > 0)).toBe(true);
+    expect(black.every((dot) => dot.size === 0)).toBe(true);
+  });
+
+  it('skips diffusion on radial layouts, whose cells are not lattice neighbours', () => {
+    (['concentric', 'spiral'] as const).forEach((gridType) => {
+      const settings: HalftoneSettings = { ...baseSettings, gridType };
+      const image = createGreyImage(100, 100, 128);
+      const diffused = generateDotsData(image, 100, 100, settings);
+      const amplitude = generateDotsData(image, 100, 100, { ...settings, method: 'amplitude' });
+      expect(diffused.map((dot) => dot.size)).toEqual(amplitude.map((dot) => dot.size));
+    });
+  });
+});
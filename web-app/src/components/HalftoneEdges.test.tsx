@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { generateDotsData, generateSvgString } from '../../../core/src/halftone';
+import { createEdgeMap, traceEdgePoints } from '../../../core/src/utils/edges';
+import { createQuadtreeCells } from '../../../core/src/utils/quadtree';
+import type { HalftoneSettings } from '../../../core/src/types';
+
+const baseSettings: HalftoneSettings = {
+  resolution: 8,
+  dotSize: 1,
+  dotShape: 'round',
+  imageBlur: 0,
+  invert: false,
+  useGradient: false,
+  gradientDirection: 'vertical',
+  randomness: 0,
+  color1: '#000000',
+  color2: '#ffffff',
+  customCharacter: '*',
+  fillPattern: 'solid',
+  angle: 0,
+};
+
+// 32x32 image: dark gray left half, light gray right half, vertical edge at x = 16
+const createStep = () => {
+  const width = 32;
+  const height = 32;
+  const data = new Uint8ClampedArray(width * height * 4);
+  const values = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = x < 16 ? 64 : 192;
+      data.set([value, value, value, 255], (y * width + x) * 4);
+      values[y * width + x] = value / 255;
+    }
+  }
+  return { data, values, width, height };
+};
+
+describe('createEdgeMap', () => {
+  it('measures Sobel strength across the step and nothing in flat areas', () => {
+    const { values, width, height } = createStep();
+    const edges = createEdgeMap(values, width, height, 'sobel');
+    // A half-contrast step reads as half strength on both sides of the boundary
+    expect(edges[10 * width + 15]).toBeCloseTo(0.5, 2);
+    expect(edges[10 * width + 16]).toBeCloseTo(0.5, 2);
+    expect(edges[10 * width + 4]).toBe(0);
+    expect(edges[10 * width + 28]).toBe(0);
+  });
+
+  it('thins Canny edges to a binary line along the step', () => {
+    const { values, width, height } = createStep();
+    const edges = createEdgeMap(values, width, height, 'canny', 0.2);
+    edges.forEach((value) => expect([0, 1]).toContain(value));
+    const row = Array.from(edges.slice(10 * width, 11 * width));
+    const columns = row.flatMap((value, x) => (value ? [x] : []));
+    expect(columns.length).toBeGreaterThan(0);
+    expect(columns.length).toBeLessThanOrEqual(2);
+    columns.forEach((x) => expect(Math.abs(x - 15.5)).toBeLessThanOrEqual(1));
+  });
+});
+
+describe('traceEdgePoints', () => {
+  it('places one point per block on the strongest edge pixel', () => {
+    const { values, width, height } = createStep();
+    // Sobel marks both pixels of the step, one in each column of 4px blocks
+    const points = traceEdgePoints(createEdgeMap(values, width, height), width, height, 4, 0.25);
+    expect(points).toHaveLength(16);
+    points.forEach(({ x }) => expect([15.5, 16.5]).toContain(x));
+    expect(traceEdgePoints(createEdgeMap(values, width, height), width, height, 4, 0.75)).toHaveLength(0);
+  });
+});
+
+describe('edge-aware halftoning', () => {
+  it('boosts dots along edges', () => {
+    const { data, width, height } = createStep();
+    const plain = generateDotsData(data, width, height, baseSettings);
+    const boosted = generateDotsData(data, width, height, { ...baseSettings, edgeMode: 'boost', edgeStrength: 1 });
+    const edgeDot = plain.findIndex((dot) => dot.x === 14);
+    expect(boosted[edgeDot].size).toBeGreaterThan(plain[edgeDot].size);
+    // Cells away from the edge are untouched
+    expect(boosted[0].size).toBe(plain[0].size);
+  });
+
+  it('splits adaptive cells on edges even when the threshold ignores tone', () => {
+    const { values, width, height } = createStep();
+    const options = { resolution: 2, maxDepth: 2, threshold: 1 };
+    expect(createQuadtreeCells(values, width, height, options)).toHaveLength(4);
+    const biased = createQuadtreeCells(values, width, height, { ...options, edges: createEdgeMap(values, width, height), edgeWeight: 40 });
+    expect(biased.length).toBeGreaterThan(4);
+  });
+
+  it('adds an outline layer composited as its own SVG group', () => {
+    const { data, width, height } = createStep();
+    const settings: HalftoneSettings = { ...baseSettings, edgeMode: 'outline', edgeDetector: 'canny' };
+    const dots = generateDotsData(data, width, height, settings);
+    const outline = dots.filter((dot) => dot.layer === 'edges');
+    expect(outline).toHaveLength(16);
+    outline.forEach((dot) => expect(dot.size).toBeCloseTo(0.5, 5));
+
+    const svg = generateSvgString(dots, width, height, settings);
+    const group = svg.match(/<g id="edges" data-layer="edges">([\s\S]*?)\n<\/g>/);
+    expect(group).not.toBeNull();
+    expect(group![1].match(/<circle /g)).toHaveLength(16);
+    // Edges don't turn the output into separation plates
+    expect(svg).not.toContain('mix-blend-mode:multiply');
+  });
+});
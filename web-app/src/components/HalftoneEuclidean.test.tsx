@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { generateDotsData, generateSvgString } from '../../../core/src/halftone';
+import { generateLottieAnimation } from '../../../core/src/lottieExport';
+import { createEuclideanDotPath, parsePolygonPath } from '../../../core/src/utils/shapes';
+import type { HalftoneSettings } from '../../../core/src/types';
+
+const baseSettings: HalftoneSettings = {
+  resolution: 2,
+  dotSize: 1,
+  dotShape: 'euclidean',
+  imageBlur: 0,
+  invert: false,
+  useGradient: false,
+  gradientDirection: 'vertical',
+  randomness: 0,
+  color1: '#ffffff',
+  color2: '#000000',
+  customCharacter: '*',
+  fillPattern: 'solid',
+  angle: 0,
+};
+
+// Shoelace formula over every subpath
+const pathArea = (path: string) =>
+  parsePolygonPath(path).reduce((total, polygon) => {
+    let area = 0;
+    polygon.forEach(([x1, y1], i) => {
+      const [x2, y2] = polygon[(i + 1) % polygon.length];
+      area += x1 * y2 - x2 * y1;
+    });
+    return total + Math.abs(area) / 2;
+  }, 0);
+
+describe('createEuclideanDotPath', () => {
+  it('is round in highlights, a diamond at 50% and a full cell at 100%', () => {
+    // Cell of pitch 20 around (10, 10)
+    const small = createEuclideanDotPath(10, 10, 20, 0.1);
+    parsePolygonPath(small)[0].forEach(([x, y]) => {
+      const distance = Math.hypot(x - 10, y - 10);
+      expect(distance).toBeGreaterThan(1.8);
+      expect(distance).toBeLessThanOrEqual(2 + 1e-9);
+    });
+
+    const half = createEuclideanDotPath(10, 10, 20, 0.5);
+    expect(pathArea(half)).toBeCloseTo(200, 1);
+    const xs = parsePolygonPath(half)[0].map(([x]) => x);
+    expect(Math.min(...xs)).toBeCloseTo(0, 5);
+    expect(Math.max(...xs)).toBeCloseTo(20, 5);
+
+    expect(pathArea(createEuclideanDotPath(10, 10, 20, 1))).toBeCloseTo(400, 5);
+  });
+
+  it('leaves inverted round holes at the cell corners in shadows', () => {
+    const area = pathArea(createEuclideanDotPath(0, 0, 20, 0.9));
+    // Four near-round quarter holes of radius 2 cut from the 20x20 cell
+    expect(area).toBeGreaterThan(400 - Math.PI * 2 * 2);
+    expect(area).toBeLessThan(400 - 11);
+  });
+
+  it('rotates with the screen', () => {
+    const [polygon] = parsePolygonPath(createEuclideanDotPath(0, 0, 20, 0.5, 45));
+    // A diamond rotated by 45° becomes an axis-aligned square
+    polygon.forEach(([x, y]) => {
+      expect(Math.max(Math.abs(x), Math.abs(y))).toBeLessThanOrEqual(7.08);
+    });
+  });
+});
+
+describe('euclidean dot shape', () => {
+  beforeEach(() => {
+    // Lottie export posts debug logs; keep the test offline
+    vi.stubGlobal('fetch', vi.fn(() => Promise.resolve(new Response())));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('emits the same path geometry to SVG and Lottie', () => {
+    const data = new Uint8ClampedArray(40 * 20 * 4).fill(128);
+    const dots = generateDotsData(data, 40, 20, baseSettings);
+    expect(dots).toHaveLength(2);
+    dots.forEach((dot) => expect(dot.path).toMatch(/^M.*Z$/));
+
+    const svg = generateSvgString(dots, 40, 20, baseSettings);
+    expect(svg).toContain(`<path d="${dots[0].path}"`);
+
+    const lottie = generateLottieAnimation(dots, 40, 20, baseSettings);
+    const [shape] = lottie.layers[0].shapes[0].it;
+    expect(shape.ty).toBe('sh');
+    expect(shape.ks.k.v).toHaveLength(parsePolygonPath(dots[0].path!)[0].length);
+    expect(lottie.layers[0].ks.r.k).toBe(0);
+  });
+});
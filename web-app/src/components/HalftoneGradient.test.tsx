@@ -0,0 +1,185 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { generateDotsData, generateSvgString } from '../../../core/src/halftone';
+import { generateLottieAnimation } from '../../../core/src/lottieExport';
+import {
+  createGradientPosition,
+  resolveGradientStops,
+  sampleGradientStops,
+} from '../../../core/src/utils/gradient';
+import type { HalftoneSettings } from '../../../core/src/types';
+
+const baseSettings: HalftoneSettings = {
+  resolution: 4,
+  dotSize: 1,
+  dotShape: 'round',
+  imageBlur: 0,
+  invert: false,
+  useGradient: true,
+  gradientDirection: 'vertical',
+  randomness: 0,
+  color1: '#000000',
+  color2: '#ffffff',
+  customCharacter: '*',
+  fillPattern: 'solid',
+  angle: 0,
+};
+
+// 8x8 image: brightness ramps from black on the left to white on the right
+const createRamp = () => {
+  const width = 8;
+  const height = 8;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = Math.round((x / (width - 1)) * 255);
+      data.set([value, value, value, 255], (y * width + x) * 4);
+    }
+  }
+  return { data, width, height };
+};
+
+describe('gradient stops', () => {
+  it('defaults to color1 and color2', () => {
+    expect(resolveGradientStops(baseSettings)).toEqual([
+      { offset: 0, color: '#000000' },
+      { offset: 1, color: '#ffffff' },
+    ]);
+  });
+
+  it('sorts stops and interpolates between neighbours, flat beyond the ends', () => {
+    const stops = resolveGradientStops({
+      ...baseSettings,
+      gradientStops: [
+        { offset: 0.75, color: '#0000ff' },
+        { offset: 0.25, color: '#ff0000' },
+        { offset: 0.5, color: '#00ff00' },
+      ],
+    });
+    expect(stops.map((stop) => stop.offset)).toEqual([0.25, 0.5, 0.75]);
+    expect(sampleGradientStops(stops, 0)).toBe('#ff0000');
+    expect(sampleGradientStops(stops, 0.5)).toBe('#00ff00');
+    expect(sampleGradientStops(stops, 0.375)).toBe('#808000');
+    expect(sampleGradientStops(stops, 1)).toBe('#0000ff');
+  });
+});
+
+describe('gradient position', () => {
+  it('keeps the vertical and horizontal directions as 90 and 0 degree linear gradients', () => {
+    const vertical = createGradientPosition(baseSettings, 100, 50);
+    expect(vertical(30, 10, 0)).toBeCloseTo(0.2, 5);
+    const horizontal = createGradientPosition(
+      { ...baseSettings, gradientDirection: 'horizontal' },
+      100,
+      50
+    );
+    expect(horizontal(30, 10, 0)).toBeCloseTo(0.3, 5);
+  });
+
+  it('spans a diagonal linear gradient corner to corner', () => {
+    const position = createGradientPosition({ ...baseSettings, gradientAngle: 45 }, 100, 100);
+    expect(position(0, 0, 0)).toBeCloseTo(0, 5);
+    expect(position(50, 50, 0)).toBeCloseTo(0.5, 5);
+    expect(position(100, 0, 0)).toBeCloseTo(0.5, 5);
+    expect(position(100, 100, 0)).toBeCloseTo(1, 5);
+  });
+
+  it('measures radial gradients from the center to the farthest corner', () => {
+    const position = createGradientPosition(
+      { ...baseSettings, gradientType: 'radial', gradientCenter: { x: 0, y: 0 } },
+      30,
+      40
+    );
+    expect(position(0, 0, 0)).toBe(0);
+    expect(position(15, 20, 0)).toBeCloseTo(0.5, 5);
+    expect(position(30, 40, 0)).toBeCloseTo(1, 5);
+  });
+
+  it('sweeps conic gradients clockwise from the start angle', () => {
+    const position = createGradientPosition(
+      { ...baseSettings, gradientType: 'conic', gradientAngle: 90 },
+      100,
+      100
+    );
+    expect(position(50, 100, 0)).toBeCloseTo(0, 5);
+    expect(position(0, 50, 0)).toBeCloseTo(0.25, 5);
+    expect(position(50, 0, 0)).toBeCloseTo(0.5, 5);
+    expect(position(100, 50, 0)).toBeCloseTo(0.75, 5);
+  });
+
+  it('follows the tone level for luminance gradients', () => {
+    const position = createGradientPosition(
+      { ...baseSettings, gradientType: 'luminance' },
+      100,
+      100
+    );
+    expect(position(0, 0, 0.3)).toBe(0.3);
+    expect(position(90, 90, 0.3)).toBe(0.3);
+  });
+});
+
+describe('gradient dot colors', () => {
+  beforeEach(() => {
+    // Lottie export posts debug logs; keep the test offline
+    vi.stubGlobal('fetch', vi.fn(() => Promise.resolve(new Response())));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('keeps sampling the default gradient at the top-left corner of each cell', () => {
+    const { data, width, height } = createRamp();
+    const dots = generateDotsData(data, width, height, baseSettings);
+    // 2px cells: rows start at 0, 2, 4 and 6 of the 8px height
+    const rowColors = [...new Set(dots.map((dot) => dot.color))];
+    expect(rowColors).toEqual(['#000000', '#404040', '#808080', '#bfbfbf']);
+  });
+
+  it('colors dots by their tone with luminance gradients', () => {
+    const { data, width, height } = createRamp();
+    const dots = generateDotsData(data, width, height, {
+      ...baseSettings,
+      gradientType: 'luminance',
+      gradientStops: [
+        { offset: 0, color: '#ff0000' },
+        { offset: 1, color: '#0000ff' },
+      ],
+    });
+    const row = dots.filter((dot) => dot.y === dots[0].y);
+    expect(row).toHaveLength(4);
+    // Brighter cells lean blue, along with their larger dots
+    const blues = row.map((dot) => parseInt(dot.color.slice(5), 16));
+    expect(blues).toEqual([...blues].sort((a, b) => a - b));
+    expect(blues[0]).toBeLessThan(blues[3]);
+  });
+
+  it('exports the same gradient colors to SVG and Lottie', () => {
+    const { data, width, height } = createRamp();
+    const settings: HalftoneSettings = {
+      ...baseSettings,
+      invert: true,
+      gradientType: 'radial',
+      gradientStops: [
+        { offset: 0, color: '#ff0000' },
+        { offset: 0.5, color: '#00ff00' },
+        { offset: 1, color: '#0000ff' },
+      ],
+    };
+    const dots = generateDotsData(data, width, height, settings).filter((dot) => dot.size > 0);
+    expect(new Set(dots.map((dot) => dot.color)).size).toBeGreaterThan(1);
+
+    const svg = generateSvgString(dots, width, height, settings);
+    dots.forEach((dot) => expect(svg).toContain(`fill="${dot.color}"`));
+
+    const lottie = generateLottieAnimation(dots, width, height, settings);
+    const fills = lottie.layers.map(
+      (layer: any) => layer.shapes[0].it.find((item: any) => item.ty === 'fl').c.k
+    );
+    const expected = dots.map((dot) =>
+      [1, 3, 5].map((i) => parseInt(dot.color.slice(i, i + 2), 16) / 255)
+    );
+    expected.forEach((rgb) => {
+      expect(fills.some((fill: number[]) => fill.every((c, i) => Math.abs(c - rgb[i]) < 1e-6))).toBe(true);
+    });
+  });
+});
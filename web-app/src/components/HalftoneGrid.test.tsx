@@ -0,0 +1,220 @@
+import { describe, it, expect } from 'vitest';
+import { generateDotsData, generateSvgString } from '../../../core/src/halftone';
+import { createGridCells } from '../../../core/src/utils/grid';
+import { createQuadtreeCells } from '../../../core/src/utils/quadtree';
+import type { HalftoneSettings } from '../../../core/src/types';
+
+const baseSettings: HalftoneSettings = {
+  resolution: 10,
+  dotSize: 1,
+  dotShape: 'round',
+  imageBlur: 0,
+  invert: false,
+  useGradient: false,
+  gradientDirection: 'vertical',
+  randomness: 0,
+  color1: '#ffffff',
+  color2: '#000000',
+  customCharacter: '*',
+  fillPattern: 'solid',
+  angle: 0,
+};
+
+const createSolidImage = (width: number, height: number, value = 255) => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  data.fill(value);
+  return data;
+};
+
+const nearestDistance = (cells: { x: number; y: number }[], index: number) =>
+  Math.min(
+    ...cells
+      .filter((_, i) => i !== index)
+      .map((cell) => Math.hypot(cell.x - cells[index].x, cell.y - cells[index].y))
+  );
+
+describe('createGridCells screen angle', () => {
+  it('keeps the axis-aligned lattice when the screen is not rotated', () => {
+    const cells = createGridCells(100, 50, { resolution: 10 });
+    expect(cells).toHaveLength(50);
+    expect(cells[0]).toMatchObject({ x: 5, y: 5 });
+    expect(cells[cells.length - 1]).toMatchObject({ x: 95, y: 45 });
+  });
+
+  it('covers every corner of the frame with a rotated screen', () => {
+    const width = 120;
+    const height = 80;
+    const cells = createGridCells(width, height, { resolution: 12, screenAngle: 45 });
+    const cellSize = width / 12;
+    const corners = [
+      [0, 0],
+      [width, 0],
+      [0, height],
+      [width, height],
+    ];
+    corners.forEach(([cx, cy]) => {
+      const nearest = Math.min(...cells.map((cell) => Math.hypot(cell.x - cx, cell.y - cy)));
+      expect(nearest).toBeLessThanOrEqual(cellSize);
+    });
+  });
+
+  it('rotates lattice neighbours by the screen angle', () => {
+    const cells = createGridCells(100, 100, { resolution: 10, screenAngle: 30 });
+    const origin = cells.find((cell) => cell.row === 5 && cell.col === 5)!;
+    const next = cells.find((cell) => cell.row === 5 && cell.col === 6)!;
+    const angle = (Math.atan2(next.y - origin.y, next.x - origin.x) * 180) / Math.PI;
+    expect(angle).toBeCloseTo(30, 5);
+  });
+});
+
+describe('createGridCells grid types', () => {
+  const nearestNeighbour = (cells: ReturnType<typeof createGridCells>, index: number) =>
+    Math.min(
+      ...cells
+        .filter((_, i) => i !== index)
+        .map((cell) => Math.hypot(cell.x - cells[index].x, cell.y - cells[index].y))
+    );
+
+  it('places hex rows sqrt(3)/2 apart with every neighbour one pitch away', () => {
+    const cells = createGridCells(100, 100, { resolution: 10, gridType: 'hex' });
+    const rowYs = [...new Set(cells.map((cell) => cell.y.toFixed(4)))].map(Number);
+    expect(rowYs[1] - rowYs[0]).toBeCloseTo((10 * Math.sqrt(3)) / 2, 3);
+
+    const middle = cells.findIndex((cell) => Math.abs(cell.x - 50) < 6 && Math.abs(cell.y - 50) < 6);
+    expect(nearestNeighbour(cells, middle)).toBeCloseTo(10, 5);
+    expect(cells[middle].pitch).toBeCloseTo(10, 5);
+  });
+
+  it('offsets odd brick rows by half a cell and keeps the left edge covered', () => {
+    const cells = createGridCells(100, 100, { resolution: 10, gridType: 'brick' });
+    const firstRow = cells.filter((cell) => cell.row === 0);
+    const secondRow = cells.filter((cell) => cell.row === 1);
+    expect(firstRow[0].x).toBeCloseTo(5, 5);
+    expect(secondRow[0].x).toBeCloseTo(0, 5);
+    expect(secondRow).toHaveLength(11);
+  });
+
+  it('interleaves diamond rows at half height', () => {
+    const cells = createGridCells(100, 100, { resolution: 10, gridType: 'diamond' });
+    const rowYs = [...new Set(cells.map((cell) => cell.y.toFixed(4)))].map(Number);
+    expect(rowYs[1] - rowYs[0]).toBeCloseTo(5, 5);
+    expect(cells.length).toBeGreaterThanOrEqual(200);
+  });
+});
+
+describe('generateSvgString screen angle', () => {
+  it('rotates non-round glyphs by the dot angle plus the screen angle', () => {
+    const settings: HalftoneSettings = {
+      ...baseSettings,
+      dotShape: 'square',
+      angle: 10,
+      screenAngle: 15,
+    };
+    const dots = generateDotsData(createSolidImage(40, 40), 40, 40, settings);
+    const svg = generateSvgString(dots, 40, 40, settings);
+    expect(svg).toContain('transform="rotate(25 ');
+  });
+});
+
+describe('createGridCells radial layouts', () => {
+  it('places concentric rings one pitch apart around the center', () => {
+    const cells = createGridCells(100, 100, { resolution: 10, gridType: 'concentric' });
+    expect(cells[0]).toMatchObject({ x: 50, y: 50, row: 0 });
+    const ring = cells.filter((cell) => cell.row === 3);
+    expect(ring).toHaveLength(18);
+    ring.forEach((cell) => expect(Math.hypot(cell.x - 50, cell.y - 50)).toBeCloseTo(30, 5));
+    // Rounding down the dot count keeps neighbours along every ring a pitch apart
+    expect(nearestDistance(cells, 0)).toBeCloseTo(10, 5);
+    cells.forEach((_, i) => expect(nearestDistance(cells, i)).toBeGreaterThanOrEqual(10 - 1e-9));
+  });
+
+  it('walks an Archimedean spiral from a custom center', () => {
+    const cells = createGridCells(100, 100, {
+      resolution: 10,
+      gridType: 'spiral',
+      center: { x: 0, y: 0 },
+    });
+    expect(cells[0]).toMatchObject({ x: 0, y: 0 });
+    // Radius grows by one pitch per turn: r = pitch * θ / 2π
+    for (let i = 1; i < cells.length; i++) {
+      const a = cells[i - 1];
+      const b = cells[i];
+      const radius = Math.hypot(b.x, b.y);
+      expect(radius).toBeGreaterThan(Math.hypot(a.x, a.y));
+    }
+    // Only dots overlapping the frame are kept, while the spiral still reaches the far corner
+    cells.forEach((cell) => {
+      expect(cell.x).toBeGreaterThan(-5);
+      expect(cell.y).toBeGreaterThan(-5);
+    });
+    expect(Math.max(...cells.map((cell) => Math.hypot(cell.x, cell.y)))).toBeGreaterThan(140);
+  });
+
+  it('keeps spiral dots at least their pitch from every neighbour', () => {
+    const cells = createGridCells(400, 300, { resolution: 40, gridType: 'spiral' });
+    expect(cells[0]).toMatchObject({ x: 200, y: 150, pitch: 10 });
+    cells.forEach((cell, i) => {
+      expect(cell.pitch).toBeGreaterThan(9.8);
+      expect(cell.pitch).toBeLessThanOrEqual(10);
+      expect(nearestDistance(cells, i)).toBeGreaterThanOrEqual(cell.pitch - 1e-9);
+    });
+  });
+
+  it('generates radial dots from the layout center setting', () => {
+    const dots = generateDotsData(createSolidImage(40, 40), 40, 40, {
+      ...baseSettings,
+      gridType: 'concentric',
+      layoutCenter: { x: 0.25, y: 0.75 },
+    });
+    expect(dots[0]).toMatchObject({ x: 10, y: 30 });
+  });
+});
+
+describe('createQuadtreeCells', () => {
+  // 64x64 map: flat grey except a checkerboard in the top-left quarter
+  const createBusyMap = () => {
+    const map = new Float32Array(64 * 64).fill(0.5);
+    for (let y = 0; y < 32; y++) {
+      for (let x = 0; x < 32; x++) {
+        map[y * 64 + x] = (x + y) % 2;
+      }
+    }
+    return map;
+  };
+
+  it('splits busy cells down to the max depth and keeps flat cells whole', () => {
+    const cells = createQuadtreeCells(createBusyMap(), 64, 64, { resolution: 2, maxDepth: 2 });
+    const busy = cells.filter((cell) => cell.x < 32 && cell.y < 32);
+    const flat = cells.filter((cell) => cell.x >= 32 || cell.y >= 32);
+    expect(busy).toHaveLength(16);
+    busy.forEach((cell) => expect(cell.width).toBe(8));
+    expect(flat).toHaveLength(3);
+    flat.forEach((cell) => expect(cell.pitch).toBe(32));
+  });
+
+  it('honours the minimum depth and covers the frame exactly', () => {
+    const cells = createQuadtreeCells(createBusyMap(), 64, 64, {
+      resolution: 2,
+      minDepth: 1,
+      maxDepth: 1,
+    });
+    expect(cells).toHaveLength(16);
+    const area = cells.reduce((sum, cell) => sum + cell.width * cell.height, 0);
+    expect(area).toBe(64 * 64);
+    const keys = new Set(cells.map((cell) => `${cell.row},${cell.col}`));
+    expect(keys.size).toBe(cells.length);
+  });
+
+  it('shrinks dots with their cells in adaptive layouts', () => {
+    const data = new Uint8ClampedArray(64 * 64 * 4);
+    createBusyMap().forEach((value, i) => data.set([value * 255, value * 255, value * 255, 255], i * 4));
+    const dots = generateDotsData(data, 64, 64, {
+      ...baseSettings,
+      resolution: 2,
+      gridType: 'adaptive',
+      adaptiveMaxDepth: 2,
+    });
+    expect(dots).toHaveLength(19);
+    expect(Math.max(...dots.filter((dot) => dot.x < 32 && dot.y < 32).map((dot) => dot.size))).toBeLessThanOrEqual(4);
+  });
+});
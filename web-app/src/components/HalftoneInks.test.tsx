@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { generateDotsData, generateSvgString } from '../../../core/src/halftone';
+import { createInkMatcher, extractPalette } from '../../../core/src/utils/color';
+import type { HalftoneSettings } from '../../../core/src/types';
+
+const baseSettings: HalftoneSettings = {
+  resolution: 8,
+  dotSize: 1,
+  dotShape: 'round',
+  imageBlur: 0,
+  invert: false,
+  useGradient: false,
+  gradientDirection: 'vertical',
+  randomness: 0,
+  color1: '#000000',
+  color2: '#ffffff',
+  customCharacter: '*',
+  fillPattern: 'solid',
+  angle: 0,
+};
+
+const QUADRANTS: [number, number, number][] = [
+  [220, 40, 40],
+  [40, 200, 60],
+  [60, 80, 230],
+  [240, 220, 60],
+];
+
+// 32x32 image: one flat color per quadrant
+const createQuadrants = () => {
+  const width = 32;
+  const height = 32;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const [r, g, b] = QUADRANTS[(y < 16 ? 0 : 2) + (x < 16 ? 0 : 1)];
+      data.set([r, g, b, 255], (y * width + x) * 4);
+    }
+  }
+  return { data, width, height };
+};
+
+const toHex = ([r, g, b]: [number, number, number]) =>
+  '#' + [r, g, b].map((v) => v.toString(16).padStart(2, '0')).join('');
+
+describe('extractPalette', () => {
+  it.each(['median-cut', 'kmeans'] as const)(
+    'recovers the flat colors of the image with %s',
+    (method) => {
+      const { data } = createQuadrants();
+      const palette = extractPalette(data, 4, method);
+      expect(palette).toHaveLength(4);
+      expect([...palette].sort()).toEqual(QUADRANTS.map(toHex).sort());
+    }
+  );
+
+  it('orders inks from dark to light and skips transparent pixels', () => {
+    const { data } = createQuadrants();
+    // Make the whole blue quadrant transparent
+    for (let i = 0; i < data.length; i += 4) {
+      if (data[i + 2] === 230) data[i + 3] = 0;
+    }
+    const palette = extractPalette(data, 4);
+    expect(palette).not.toContain('#3c50e6');
+    expect(palette[0]).toBe('#dc2828');
+    expect(palette[palette.length - 1]).toBe('#f0dc3c');
+  });
+});
+
+describe('createInkMatcher', () => {
+  it('picks the nearest ink', () => {
+    const match = createInkMatcher(['#000000', '#ff0000', '#ffffff']);
+    expect(match(20, 10, 10)).toBe(0);
+    expect(match(200, 30, 40)).toBe(1);
+    expect(match(230, 230, 220)).toBe(2);
+  });
+});
+
+describe('ink color mode', () => {
+  const settings: HalftoneSettings = {
+    ...baseSettings,
+    invert: true,
+    colorMode: 'inks',
+    paletteSize: 4,
+  };
+
+  it('colors every dot with one palette ink and tags it with its ink layer', () => {
+    const { data, width, height } = createQuadrants();
+    const palette = extractPalette(data, 4);
+    const dots = generateDotsData(data, width, height, settings);
+    expect(dots.length).toBeGreaterThan(0);
+    dots.forEach((dot) => {
+      const index = palette.indexOf(dot.color);
+      expect(index).toBeGreaterThanOrEqual(0);
+      expect(dot.layer).toBe(`ink-${index + 1}`);
+    });
+    // Top-left quadrant dots take the red ink
+    const topLeft = dots.find((dot) => dot.x < 16 && dot.y < 16);
+    expect(topLeft?.color).toBe('#dc2828');
+  });
+
+  it('uses a custom palette, ignoring invalid colors', () => {
+    const { data, width, height } = createQuadrants();
+    const dots = generateDotsData(data, width, height, {
+      ...settings,
+      paletteMethod: 'custom',
+      paletteColors: ['#000000', 'oops', '#ffffff'],
+    });
+    expect(dots.length).toBeGreaterThan(0);
+    dots.forEach((dot) => {
+      expect(['#000000', '#ffffff']).toContain(dot.color);
+      expect(dot.layer).toBe(dot.color === '#000000' ? 'ink-1' : 'ink-2');
+    });
+  });
+
+  it('groups SVG dots per ink without plate blending', () => {
+    const { data, width, height } = createQuadrants();
+    const dots = generateDotsData(data, width, height, settings);
+    const svg = generateSvgString(dots, width, height, settings);
+    const groups = svg.match(/<g id="ink-\d+" data-layer="ink-\d+">/g) ?? [];
+    expect(groups).toHaveLength(new Set(dots.map((dot) => dot.layer)).size);
+    expect(svg.indexOf('id="ink-1"')).toBeLessThan(svg.indexOf('id="ink-2"'));
+    expect(svg).not.toContain('mix-blend-mode');
+    expect(svg).not.toContain('data-plate');
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { generateDotsData, generateSvgString } from '../../../core/src/halftone';
+import { createLineOutline } from '../../../core/src/lineScreen';
+import { generateLottieAnimation } from '../../../core/src/lottieExport';
+import type { HalftoneSettings } from '../../../core/src/types';
+
+const baseSettings: HalftoneSettings = {
+  resolution: 4,
+  dotSize: 1,
+  dotShape: 'round',
+  imageBlur: 0,
+  invert: false,
+  useGradient: false,
+  gradientDirection: 'vertical',
+  randomness: 0,
+  color1: '#ffffff',
+  color2: '#000000',
+  customCharacter: '*',
+  fillPattern: 'solid',
+  angle: 0,
+  lineStyle: 'horizontal',
+};
+
+// 32x32 image: left half white, right half black
+const createSplitImage = () => {
+  const width = 32;
+  const height = 32;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = x < 16 ? 255 : 0;
+      data.set([value, value, value, 255], (y * width + x) * 4);
+    }
+  }
+  return { data, width, height };
+};
+
+const pathPoints = (path: string) =>
+  path
+    .replace(/[MZ]/g, ' ')
+    .split(/[L ]+/)
+    .filter(Boolean)
+    .map((point) => point.split(',').map(Number));
+
+describe('createLineOutline', () => {
+  it('offsets samples on both sides of the centerline and closes the outline', () => {
+    const path = createLineOutline([
+      { x: 0, y: 10, halfWidth: 2 },
+      { x: 5, y: 10, halfWidth: 2 },
+      { x: 10, y: 10, halfWidth: 1 },
+    ]);
+    expect(path).toBe('M0.00,12.00L5.00,12.00L10.00,11.00L10.00,9.00L5.00,8.00L0.00,8.00Z');
+  });
+
+  it('splits the outline where the line thins out', () => {
+    const path = createLineOutline([
+      { x: 0, y: 0, halfWidth: 1 },
+      { x: 1, y: 0, halfWidth: 0 },
+      { x: 2, y: 0, halfWidth: 0 },
+      { x: 3, y: 0, halfWidth: 1 },
+    ]);
+    expect(path.match(/M/g)).toHaveLength(2);
+  });
+});
+
+describe('generateDotsData line screen', () => {
+  it('emits one outline per horizontal line, thick on bright areas and absent on black', () => {
+    const { data, width, height } = createSplitImage();
+    const lines = generateDotsData(data, width, height, baseSettings);
+    expect(lines).toHaveLength(4);
+    lines.forEach((line, row) => {
+      expect(line.size).toBeCloseTo(4, 5);
+      const points = pathPoints(line.path!);
+      const ys = points.map(([, y]) => y);
+      expect(Math.min(...ys)).toBeCloseTo(row * 8, 5);
+      expect(Math.max(...ys)).toBeCloseTo(row * 8 + 8, 5);
+      // The stroke ends where the image turns black
+      expect(Math.max(...points.map(([x]) => x))).toBeLessThanOrEqual(18);
+    });
+  });
+
+  it('rings the layout center in circular mode', () => {
+    const { data, width, height } = createSplitImage();
+    const rings = generateDotsData(data, width, height, { ...baseSettings, lineStyle: 'circular' });
+    expect(rings.length).toBeGreaterThan(0);
+    rings.forEach((ring) => expect(ring.path).toMatch(/^M/));
+  });
+
+  it('renders filled path outlines in SVG', () => {
+    const { data, width, height } = createSplitImage();
+    const settings: HalftoneSettings = { ...baseSettings, lineStyle: 'wavy', screenAngle: 30 };
+    const lines = generateDotsData(data, width, height, settings);
+    const svg = generateSvgString(lines, width, height, settings);
+    expect(svg.match(/<path d="M/g)).toHaveLength(lines.length);
+    expect(svg).not.toContain('<circle');
+    expect(svg).not.toContain('stroke=');
+  });
+});
+
+describe('line screen Lottie export', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('keeps stroke outlines at their real size', () => {
+    // Lottie export posts debug logs; keep the test offline
+    vi.stubGlobal('fetch', vi.fn(() => Promise.resolve(new Response())));
+    const { data, width, height } = createSplitImage();
+    const dots = generateDotsData(data, width, height, baseSettings);
+    const lottie = generateLottieAnimation(dots, width, height, baseSettings);
+    expect(lottie.layers).toHaveLength(dots.length);
+    lottie.layers.forEach((layer: any, i: number) => {
+      const [shape] = layer.shapes[0].it;
+      const [first] = pathPoints(dots[i].path!);
+      expect(shape.ks.k.v[0][0]).toBeCloseTo(first[0] - dots[i].x, 5);
+      expect(shape.ks.k.v[0][1]).toBeCloseTo(first[1] - dots[i].y, 5);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { generateDotsData } from '../../../core/src/halftone';
+import { createPoissonCells } from '../../../core/src/utils/poisson';
+import { createRandom } from '../../../core/src/utils/random';
+import type { HalftoneSettings } from '../../../core/src/types';
+
+const baseSettings: HalftoneSettings = {
+  resolution: 16,
+  dotSize: 1,
+  dotShape: 'round',
+  imageBlur: 0,
+  invert: false,
+  useGradient: false,
+  gradientDirection: 'vertical',
+  randomness: 0,
+  color1: '#ffffff',
+  color2: '#000000',
+  customCharacter: '*',
+  fillPattern: 'solid',
+  angle: 0,
+  gridType: 'poisson',
+};
+
+const minDistance = (points: { x: number; y: number }[]) => {
+  let min = Infinity;
+  for (let i = 0; i < points.length; i++) {
+    for (let j = i + 1; j < points.length; j++) {
+      min = Math.min(min, Math.hypot(points[i].x - points[j].x, points[i].y - points[j].y));
+    }
+  }
+  return min;
+};
+
+// 64x64 image: left half white, right half mid grey
+const createSplitImage = () => {
+  const width = 64;
+  const height = 64;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = x < 32 ? 255 : 64;
+      data.set([value, value, value, 255], (y * width + x) * 4);
+    }
+  }
+  return { data, width, height };
+};
+
+describe('createPoissonCells', () => {
+  it('never places two centers closer than the minimum spacing', () => {
+    const cells = createPoissonCells(80, 60, {
+      resolution: 20,
+      density: () => 1,
+      random: createRandom(3),
+    });
+    expect(minDistance(cells)).toBeGreaterThanOrEqual(4);
+    cells.forEach((cell) => {
+      expect(cell.x).toBeGreaterThanOrEqual(0);
+      expect(cell.x).toBeLessThan(80);
+      expect(cell.y).toBeGreaterThanOrEqual(0);
+      expect(cell.y).toBeLessThan(60);
+    });
+  });
+
+  it('fills the frame without large gaps', () => {
+    const cells = createPoissonCells(80, 80, {
+      resolution: 20,
+      density: () => 1,
+      random: createRandom(5),
+    });
+    // Maximal sampling: every probe point lies within twice the spacing of a center
+    for (let y = 0; y < 80; y += 5) {
+      for (let x = 0; x < 80; x += 5) {
+        const nearest = Math.min(...cells.map((cell) => Math.hypot(cell.x - x, cell.y - y)));
+        expect(nearest).toBeLessThan(8);
+      }
+    }
+  });
+
+  it('spaces points further apart where density is low', () => {
+    const cells = createPoissonCells(80, 80, {
+      resolution: 20,
+      density: (x) => (x < 40 ? 1 : 0.25),
+      random: createRandom(9),
+    });
+    const dense = cells.filter((cell) => cell.x < 36);
+    const sparse = cells.filter((cell) => cell.x > 44);
+    expect(minDistance(sparse)).toBeGreaterThanOrEqual(8);
+    expect(dense.length).toBeGreaterThan(sparse.length * 2.5);
+  });
+});
+
+describe('generateDotsData poisson layout', () => {
+  it('places denser dots in brighter areas and is reproducible per seed', () => {
+    const { data, width, height } = createSplitImage();
+    const dots = generateDotsData(data, width, height, { ...baseSettings, seed: 4 });
+    const bright = dots.filter((dot) => dot.x < 30).length;
+    const dark = dots.filter((dot) => dot.x > 34).length;
+    expect(bright).toBeGreaterThan(dark * 2);
+    expect(minDistance(dots)).toBeGreaterThanOrEqual(4);
+
+    const again = generateDotsData(data, width, height, { ...baseSettings, seed: 4, randomness: 1 });
+    expect(again).toEqual(dots);
+  });
+});
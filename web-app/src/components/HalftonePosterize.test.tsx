@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { generateDotsData, generateSvgString } from '../../../core/src/halftone';
+import { posterizeLevel } from '../../../core/src/utils/dither';
+import type { HalftoneSettings } from '../../../core/src/types';
+
+const baseSettings: HalftoneSettings = {
+  resolution: 16,
+  dotSize: 1,
+  dotShape: 'round',
+  imageBlur: 0,
+  invert: false,
+  useGradient: false,
+  gradientDirection: 'vertical',
+  randomness: 0,
+  color1: '#000000',
+  color2: '#ffffff',
+  customCharacter: '*',
+  fillPattern: 'solid',
+  angle: 0,
+  sizeLevels: 4,
+};
+
+// 64x64 horizontal ramp from black to white
+const createRamp = () => {
+  const size = 64;
+  const data = new Uint8ClampedArray(size * size * 4);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const value = Math.round((x / (size - 1)) * 255);
+      data.set([value, value, value, 255], (y * size + x) * 4);
+    }
+  }
+  return { data, width: size, height: size };
+};
+
+const distinctSizes = (sizes: number[]) => new Set(sizes.map((size) => size.toFixed(4))).size;
+
+describe('posterizeLevel', () => {
+  it('rounds to the nearest of the levels above zero', () => {
+    expect(posterizeLevel(0.1, 4)).toBe(0);
+    expect(posterizeLevel(0.3, 4)).toBe(0.25);
+    expect(posterizeLevel(0.9, 4)).toBe(1);
+    expect(posterizeLevel(1.5, 4)).toBe(1);
+  });
+
+  it('dithers between adjacent levels while keeping the average', () => {
+    let total = 0;
+    for (let row = 0; row < 4; row++) {
+      for (let col = 0; col < 4; col++) {
+        const level = posterizeLevel(0.3, 4, true, row, col);
+        expect([0.25, 0.5]).toContain(level);
+        total += level;
+      }
+    }
+    expect(total / 16).toBeCloseTo(0.3, 1);
+  });
+});
+
+describe('posterized dot sizes', () => {
+  it('snaps dots to the configured number of sizes', () => {
+    const { data, width, height } = createRamp();
+    const continuous = generateDotsData(data, width, height, { ...baseSettings, sizeLevels: 0 });
+    const snapped = generateDotsData(data, width, height, baseSettings);
+    expect(distinctSizes(continuous.map((dot) => dot.size))).toBeGreaterThan(5);
+    const visible = snapped.filter((dot) => dot.size > 0).map((dot) => dot.size);
+    expect(distinctSizes(visible)).toBe(4);
+    expect(Math.max(...visible)).toBeCloseTo(2, 5);
+  });
+
+  it('emits one symbol per level and places dots with <use>', () => {
+    const { data, width, height } = createRamp();
+    const settings: HalftoneSettings = { ...baseSettings, dotShape: 'square', angle: 30 };
+    const dots = generateDotsData(data, width, height, settings);
+    const svg = generateSvgString(dots, width, height, settings);
+    expect(svg.match(/<symbol /g)).toHaveLength(4);
+    expect(svg).toContain('<symbol id="ht-level-4" overflow="visible"><rect x="-2.00" y="-2.00" width="4.00" height="4.00"/></symbol>');
+    const uses = svg.match(/<use href="#ht-level-\d" x="[\d.]+" y="[\d.]+" fill="#000000" transform="rotate\(30 /g);
+    expect(uses).toHaveLength(dots.filter((dot) => dot.size > 0.1).length);
+    // Only the symbols hold shapes; no dot draws its own rect
+    expect(svg).not.toMatch(/<rect x="\d/);
+    // Dot groups carry their radius for the hover depth, since <use> has no r
+    const radii = [...svg.matchAll(/<g class="ht-dot" [^>]*data-r="([\d.]+)"/g)].map((m) => m[1]);
+    expect(radii).toHaveLength(uses!.length);
+    expect(new Set(radii)).toEqual(new Set(['0.50', '1.00', '1.50', '2.00']));
+  });
+
+  it('keeps per-dot elements for continuous sizes', () => {
+    const { data, width, height } = createRamp();
+    const settings: HalftoneSettings = { ...baseSettings, sizeLevels: 0 };
+    const svg = generateSvgString(generateDotsData(data, width, height, settings), width, height, settings);
+    expect(svg).not.toContain('<symbol');
+    expect(svg).toContain('<circle cx=');
+  });
+});
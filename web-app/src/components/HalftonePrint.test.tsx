@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import { generateDotsData } from '../../../core/src/halftone';
+import { compensateDotGain, createDotSizeAdjuster } from '../../../core/src/utils/dotGain';
+import type { HalftoneSettings } from '../../../core/src/types';
+
+const baseSettings: HalftoneSettings = {
+  resolution: 16,
+  dotSize: 1,
+  dotShape: 'round',
+  imageBlur: 0,
+  invert: false,
+  useGradient: false,
+  gradientDirection: 'vertical',
+  randomness: 0,
+  color1: '#000000',
+  color2: '#ffffff',
+  customCharacter: '*',
+  fillPattern: 'solid',
+  angle: 0,
+  // 64px printed 64mm wide: 1px = 1mm
+  printWidth: 64,
+};
+
+// 64x64 horizontal ramp from black to white
+const createRamp = () => {
+  const size = 64;
+  const data = new Uint8ClampedArray(size * size * 4);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const value = Math.round((x / (size - 1)) * 255);
+      data.set([value, value, value, 255], (y * size + x) * 4);
+    }
+  }
+  return { data, width: size, height: size };
+};
+
+// Clearance: Smallest distance between the edges of any two dots
+const minClearance = (dots: { x: number; y: number; size: number }[]) => {
+  let min = Infinity;
+  for (let i = 0; i < dots.length; i++) {
+    for (let j = i + 1; j < dots.length; j++) {
+      const distance = Math.hypot(dots[i].x - dots[j].x, dots[i].y - dots[j].y);
+      min = Math.min(min, distance - dots[i].size - dots[j].size);
+    }
+  }
+  return min;
+};
+
+describe('compensateDotGain', () => {
+  it('shrinks dots so the printed area hits the target', () => {
+    const gain = 0.2;
+    const printed = (area: number) => area + 4 * gain * area * (1 - area);
+    [0.1, 0.5, 0.8].forEach((target) => {
+      const area = compensateDotGain(target, gain);
+      expect(area).toBeLessThan(target);
+      expect(printed(area)).toBeCloseTo(target, 6);
+    });
+    expect(compensateDotGain(0, gain)).toBe(0);
+    expect(compensateDotGain(1, gain)).toBeCloseTo(1, 6);
+    expect(compensateDotGain(0.4, 0)).toBe(0.4);
+  });
+});
+
+describe('createDotSizeAdjuster', () => {
+  it('drops or grows dots below the minimum diameter', () => {
+    const adjust = createDotSizeAdjuster({ ...baseSettings, minDotDiameter: 1 }, 64);
+    expect(adjust(0.05, 4, 8)).toBe(0);
+    expect(adjust(0.1, 4, 8)).toBe(0.5);
+    expect(adjust(0.5, 4, 8)).toBe(2);
+  });
+
+  it('caps dots at the maximum diameter and keeps the gap to neighbours', () => {
+    expect(createDotSizeAdjuster({ ...baseSettings, maxDotDiameter: 5 }, 64)(1, 4, 8)).toBe(2.5);
+    expect(createDotSizeAdjuster({ ...baseSettings, minDotGap: 2 }, 64)(1, 4, 8)).toBe(3);
+  });
+
+  it('keeps the gap even when the minimum diameter leaves no room for it', () => {
+    // 8px pitch with a 4px gap leaves 2px radius, below the 2.5px minimum radius
+    const adjust = createDotSizeAdjuster({ ...baseSettings, minDotDiameter: 5, minDotGap: 4 }, 64);
+    [0.3, 0.5, 1].forEach((fraction) => expect(adjust(fraction, 4, 8)).toBe(0));
+    // With room for both, grown dots stay clear of the gap
+    const roomy = createDotSizeAdjuster({ ...baseSettings, minDotDiameter: 3, minDotGap: 2 }, 64);
+    expect(roomy(0.3, 4, 8)).toBe(1.5);
+    expect(roomy(1, 4, 8)).toBe(3);
+  });
+
+  it('narrows the gap radius by how far the dot may shift', () => {
+    const adjust = createDotSizeAdjuster({ ...baseSettings, minDotGap: 2 }, 64);
+    expect(adjust(1, 4, 8, 1)).toBe(2);
+    expect(adjust(0.25, 4, 8, 1)).toBe(1);
+  });
+
+  it('scales physical limits with the print width', () => {
+    // 64px printed 32mm wide: 1mm = 2px
+    const adjust = createDotSizeAdjuster({ ...baseSettings, printWidth: 32, maxDotDiameter: 2 }, 64);
+    expect(adjust(1, 4, 8)).toBe(2);
+  });
+});
+
+describe('print adjustments in generateDotsData', () => {
+  it('never emits dots between zero and the minimum size', () => {
+    const { data, width, height } = createRamp();
+    const dots = generateDotsData(data, width, height, {
+      ...baseSettings,
+      minDotDiameter: 1.5,
+      minDotGap: 1,
+    });
+    expect(dots.some((dot) => dot.size === 0)).toBe(true);
+    dots.forEach((dot) => {
+      if (dot.size > 0) expect(dot.size).toBeGreaterThanOrEqual(0.75);
+      // Pitch 4 minus a 1mm gap leaves at most 1.5 radius
+      expect(dot.size).toBeLessThanOrEqual(1.5);
+    });
+  });
+
+  it('keeps the gap between neighbours with jittered and radial layouts', () => {
+    const { data, width, height } = createRamp();
+    [
+      { randomness: 0.5 },
+      { randomness: 0.2, angle: 30, screenAngle: 30 },
+      { gridType: 'concentric' as const },
+      { gridType: 'concentric' as const, randomness: 0.3 },
+      { gridType: 'spiral' as const },
+    ].forEach((overrides) => {
+      const dots = generateDotsData(data, width, height, {
+        ...baseSettings,
+        minDotGap: 0.95,
+        ...overrides,
+      }).filter((dot) => dot.size > 0);
+      expect(dots.length).toBeGreaterThan(0);
+      expect(minClearance(dots)).toBeGreaterThanOrEqual(0.95 - 1e-9);
+    });
+  });
+
+  it('shrinks midtones when compensating dot gain', () => {
+    const { data, width, height } = createRamp();
+    const plain = generateDotsData(data, width, height, baseSettings);
+    const compensated = generateDotsData(data, width, height, { ...baseSettings, dotGain: 0.15 });
+    const middle = plain.findIndex((dot) => dot.x > 30);
+    expect(compensated[middle].size).toBeLessThan(plain[middle].size);
+    // Gain peaks at midtones, so near-full dots barely change
+    const last = plain.length - 1;
+    expect(compensated[last].size / plain[last].size).toBeGreaterThan(0.95);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { generateDotsData } from '../../../core/src/halftone';
+import { createCellSampler, createLuminanceMap } from '../../../core/src/utils/sampling';
+import type { HalftoneSettings } from '../../../core/src/types';
+
+const baseSettings: HalftoneSettings = {
+  resolution: 1,
+  dotSize: 1,
+  dotShape: 'round',
+  imageBlur: 0,
+  invert: false,
+  useGradient: false,
+  gradientDirection: 'vertical',
+  randomness: 0,
+  color1: '#ffffff',
+  color2: '#000000',
+  customCharacter: '*',
+  fillPattern: 'solid',
+  angle: 0,
+};
+
+// 4x4 image: left half white, right half black
+const createSplitImage = () => {
+  const width = 4;
+  const height = 4;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const value = x < 2 ? 255 : 0;
+      data[i] = value;
+      data[i + 1] = value;
+      data[i + 2] = value;
+      data[i + 3] = 255;
+    }
+  }
+  return { data, width, height };
+};
+
+describe('generateDotsData cell sampling', () => {
+  it('keeps single center-pixel sampling by default', () => {
+    const { data, width, height } = createSplitImage();
+    const [dot] = generateDotsData(data, width, height, baseSettings);
+    // Center pixel (2, 2) is black
+    expect(dot.size).toBeCloseTo(0);
+  });
+
+  it('averages every pixel in the cell in average mode', () => {
+    const { data, width, height } = createSplitImage();
+    const [dot] = generateDotsData(data, width, height, {
+      ...baseSettings,
+      samplingMode: 'average',
+    });
+    // Half the cell is white, so the dot is half the max radius of 2
+    expect(dot.size).toBeCloseTo(1, 5);
+  });
+
+  it('picks the brightest or darkest pixel in max and min modes', () => {
+    const { data, width, height } = createSplitImage();
+    const [maxDot] = generateDotsData(data, width, height, {
+      ...baseSettings,
+      samplingMode: 'max',
+    });
+    const [minDot] = generateDotsData(data, width, height, {
+      ...baseSettings,
+      samplingMode: 'min',
+    });
+    expect(maxDot.size).toBeCloseTo(2, 5);
+    expect(minDot.size).toBeCloseTo(0, 5);
+  });
+
+  it('matches a brute-force average for arbitrary sub-rectangles', () => {
+    const { data, width, height } = createSplitImage();
+    const map = createLuminanceMap(data, width, height);
+    const sample = createCellSampler(map, width, height, 'average');
+    // Columns 1-2, rows 0-2: one white and one black column
+    expect(sample(1, 0, 3, 3)).toBeCloseTo(0.5, 5);
+    expect(sample(0, 0, 2, 4)).toBeCloseTo(1, 5);
+  });
+
+  it('weights the cell center most heavily in gaussian mode', () => {
+    const { data, width, height } = createSplitImage();
+    const map = createLuminanceMap(data, width, height);
+    const sample = createCellSampler(map, width, height, 'gaussian');
+    // A cell centered on the white half reads brighter than one straddling the edge
+    expect(sample(0, 0, 3, 4)).toBeGreaterThan(sample(0, 0, 4, 4));
+    expect(sample(0, 0, 4, 4)).toBeCloseTo(0.5, 5);
+  });
+});
+
+describe('createLuminanceMap models', () => {
+  // One pixel each: red, mid grey, transparent white
+  const pixels = new Uint8ClampedArray([255, 0, 0, 255, 119, 119, 119, 255, 255, 255, 255, 0]);
+
+  it('weights channels per BT.601 and BT.709', () => {
+    const bt601 = createLuminanceMap(pixels, 3, 1, 'bt601');
+    const bt709 = createLuminanceMap(pixels, 3, 1, 'bt709');
+    expect(bt601[0]).toBeCloseTo(0.299, 5);
+    expect(bt709[0]).toBeCloseTo(0.2126, 5);
+  });
+
+  it('computes CIELAB lightness', () => {
+    const lightness = createLuminanceMap(pixels, 3, 1, 'lightness');
+    // sRGB 119 grey is close to L* 50
+    expect(lightness[1]).toBeCloseTo(0.5, 2);
+    expect(lightness[2]).toBeCloseTo(1, 5);
+  });
+
+  it('reads single channels including alpha', () => {
+    expect(createLuminanceMap(pixels, 3, 1, 'red')[0]).toBe(1);
+    expect(createLuminanceMap(pixels, 3, 1, 'green')[0]).toBe(0);
+    expect(createLuminanceMap(pixels, 3, 1, 'alpha')[2]).toBe(0);
+  });
+
+  it('drives dot size by saturation or closeness to a key hue', () => {
+    const saturation = createLuminanceMap(pixels, 3, 1, 'saturation');
+    expect(saturation[0]).toBe(1);
+    expect(saturation[1]).toBe(0);
+
+    const keyRed = createLuminanceMap(pixels, 3, 1, 'key', '#ff0000');
+    const keyCyan = createLuminanceMap(pixels, 3, 1, 'key', '#00ffff');
+    expect(keyRed[0]).toBe(1);
+    expect(keyCyan[0]).toBe(0);
+    expect(keyRed[1]).toBe(0);
+  });
+});
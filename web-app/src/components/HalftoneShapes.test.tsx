@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { generateSvgString } from '../../../core/src/halftone';
+import { generateLottieAnimation } from '../../../core/src/lottieExport';
+import { createShapePolygon, parsePolygonPath } from '../../../core/src/utils/shapes';
+import type { Dot, HalftoneSettings } from '../../../core/src/types';
+
+const baseSettings: HalftoneSettings = {
+  resolution: 2,
+  dotSize: 1,
+  dotShape: 'diamond',
+  imageBlur: 0,
+  invert: false,
+  useGradient: false,
+  gradientDirection: 'vertical',
+  randomness: 0,
+  color1: '#000000',
+  color2: '#ffffff',
+  customCharacter: '*',
+  fillPattern: 'solid',
+  angle: 0,
+};
+
+const dots: Dot[] = [{ x: 10, y: 10, size: 4, color: '#000000' }];
+
+describe('createShapePolygon', () => {
+  it('builds regular polygons inside the dot radius', () => {
+    expect(createShapePolygon('triangle', 4)).toHaveLength(3);
+    expect(createShapePolygon('diamond', 4)).toHaveLength(4);
+    expect(createShapePolygon('hexagon', 4)).toHaveLength(6);
+    createShapePolygon('hexagon', 4)!.forEach(([x, y]) => {
+      expect(Math.hypot(x, y)).toBeCloseTo(4, 5);
+    });
+  });
+
+  it('alternates outer tips and inner notches on stars', () => {
+    const star = createShapePolygon('star', 4, { starPoints: 7 })!;
+    expect(star).toHaveLength(14);
+    const radii = star.map(([x, y]) => Math.hypot(x, y));
+    expect(radii[0]).toBeCloseTo(4, 5);
+    expect(radii[1]).toBeLessThan(2);
+  });
+
+  it('makes lines long and thin', () => {
+    const line = createShapePolygon('line', 4)!;
+    const xs = line.map(([x]) => x);
+    const ys = line.map(([, y]) => y);
+    expect(Math.max(...xs) - Math.min(...xs)).toBe(8);
+    expect(Math.max(...ys) - Math.min(...ys)).toBe(2);
+  });
+
+  it('leaves natively drawn shapes to the renderers', () => {
+    expect(createShapePolygon('round', 4)).toBeNull();
+    expect(createShapePolygon('ellipse', 4)).toBeNull();
+  });
+});
+
+describe('built-in dot shapes in SVG and Lottie', () => {
+  beforeEach(() => {
+    // Lottie export posts debug logs; keep the test offline
+    vi.stubGlobal('fetch', vi.fn(() => Promise.resolve(new Response())));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('draws ellipses with the configured aspect ratio', () => {
+    const settings: HalftoneSettings = { ...baseSettings, dotShape: 'ellipse', ellipseAspect: 0.25, angle: 30 };
+    const svg = generateSvgString(dots, 20, 20, settings);
+    expect(svg).toContain('<ellipse cx="10.00" cy="10.00" rx="4.00" ry="1.00"');
+    expect(svg).toContain('transform="rotate(30 10.00 10.00)"');
+
+    const [shape] = generateLottieAnimation(dots, 20, 20, settings).layers[0].shapes[0].it;
+    expect(shape.ty).toBe('el');
+    expect(shape.s.k[1]).toBeCloseTo(shape.s.k[0] * 0.25, 5);
+  });
+
+  it('renders polygon shapes with the same outline in SVG and Lottie', () => {
+    const settings: HalftoneSettings = { ...baseSettings, dotShape: 'star', starPoints: 6 };
+    const svg = generateSvgString(dots, 20, 20, settings);
+    const path = svg.match(/<path d="([^"]+)"/)![1];
+    const [svgPolygon] = parsePolygonPath(path);
+    expect(svgPolygon).toHaveLength(12);
+
+    const lottie = generateLottieAnimation(dots, 20, 20, settings);
+    const [shape] = lottie.layers[0].shapes[0].it;
+    expect(shape.ty).toBe('sh');
+    // Lottie vertices are relative to the layer and scaled up by 10
+    shape.ks.k.v.forEach(([x, y]: [number, number], i: number) => {
+      expect(x / 10 + 10).toBeCloseTo(svgPolygon[i][0], 1);
+      expect(y / 10 + 10).toBeCloseTo(svgPolygon[i][1], 1);
+    });
+  });
+});
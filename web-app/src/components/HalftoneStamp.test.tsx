@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { generateSvgString } from '../../../core/src/halftone';
+import {
+  createPathStamp,
+  getStampPlacement,
+  parseSvgStamp,
+} from '../../../core/src/utils/shapes';
+import type { Dot, HalftoneSettings } from '../../../core/src/types';
+
+const baseSettings: HalftoneSettings = {
+  resolution: 2,
+  dotSize: 1,
+  dotShape: 'custom',
+  imageBlur: 0,
+  invert: false,
+  useGradient: false,
+  gradientDirection: 'vertical',
+  randomness: 0,
+  color1: '#000000',
+  color2: '#ffffff',
+  customCharacter: '*',
+  fillPattern: 'solid',
+  angle: 0,
+};
+
+const dots: Dot[] = [
+  { x: 10, y: 10, size: 4, color: '#ff0000' },
+  { x: 30, y: 10, size: 2, color: '#0000ff' },
+];
+
+describe('parseSvgStamp', () => {
+  it('joins the paths of an icon and keeps its viewBox', () => {
+    const stamp = parseSvgStamp(
+      `<svg xmlns="http://www.w3.org/2000/svg" viewBox="-8 -8 16 16"><path d="M0 -8 L8 8 H-8 Z"/><path fill="red" d='M-1 -1 h2 v2 h-2 Z'/></svg>`
+    );
+    expect(stamp).toEqual({
+      kind: 'path',
+      data: 'M0 -8 L8 8 H-8 Z M-1 -1 h2 v2 h-2 Z',
+      x: -8,
+      y: -8,
+      width: 16,
+      height: 16,
+    });
+  });
+
+  it('falls back to the width and height attributes, and rejects path-less files', () => {
+    const stamp = parseSvgStamp('<svg width="48px" height="32"><path d="M0 0 H48 V32 Z"/></svg>');
+    expect(stamp).toMatchObject({ width: 48, height: 32 });
+    expect(stamp?.x).toBeUndefined();
+    expect(parseSvgStamp('<svg viewBox="0 0 10 10"><circle r="5"/></svg>')).toBeNull();
+  });
+});
+
+describe('getStampPlacement', () => {
+  it('centers the stamp box in the dot and fits its longer side', () => {
+    const placement = getStampPlacement({ kind: 'image', data: '', width: 20, height: 10 }, 5);
+    expect(placement).toEqual({ scale: 0.5, offsetX: -5, offsetY: -2.5 });
+  });
+});
+
+describe('stamp dots in SVG', () => {
+  it('defines a path stamp once and references it for every dot', () => {
+    const settings: HalftoneSettings = { ...baseSettings, customStamp: createPathStamp('M12 2 L22 22 H2 Z') };
+    const svg = generateSvgString(dots, 40, 20, settings);
+    expect(svg.match(/<symbol /g)).toHaveLength(1);
+    expect(svg).toContain('<symbol id="ht-stamp" viewBox="0 0 24 24"><path d="M12 2 L22 22 H2 Z"/></symbol>');
+    expect(svg).toContain('<use href="#ht-stamp" x="6.00" y="6.00" width="8.00" height="8.00" fill="#ff0000"');
+    expect(svg).toContain('<use href="#ht-stamp" x="28.00" y="8.00" width="4.00" height="4.00" fill="#0000ff"');
+    expect(svg).not.toContain('<text');
+  });
+
+  it('embeds bitmap stamps as an image symbol', () => {
+    const settings: HalftoneSettings = {
+      ...baseSettings,
+      customStamp: { kind: 'image', data: 'data:image/png;base64,AAAA', width: 8, height: 4 },
+    };
+    const svg = generateSvgString(dots, 40, 20, settings);
+    expect(svg).toContain(
+      '<symbol id="ht-stamp" viewBox="0 0 8 4"><image href="data:image/png;base64,AAAA" width="8" height="4" preserveAspectRatio="none"/></symbol>'
+    );
+    expect(svg.match(/<use /g)).toHaveLength(2);
+  });
+
+  it('escapes stamp data so uploaded files cannot inject markup', () => {
+    const stamp = parseSvgStamp(
+      `<svg viewBox="0 0 24 24"><path d='M0 0"/><img src=x onerror=alert(1)>'/></svg>`
+    );
+    const svg = generateSvgString(dots, 40, 20, { ...baseSettings, customStamp: stamp! });
+    expect(svg).not.toContain('<img');
+    expect(svg).toContain('<path d="M0 0&quot;/>&lt;img src=x onerror=alert(1)>"/>');
+  });
+
+  it('ignores the stamp for other shapes', () => {
+    const settings: HalftoneSettings = {
+      ...baseSettings,
+      dotShape: 'plus',
+      customStamp: createPathStamp('M0 0 H24 V24 Z'),
+    };
+    const svg = generateSvgString(dots, 40, 20, settings);
+    expect(svg).not.toContain('ht-stamp');
+    expect(svg).toContain('>+</text>');
+  });
+});
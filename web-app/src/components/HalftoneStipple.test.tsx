@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import { generateDotsData, generateSvgString } from '../../../core/src/halftone';
+import { createStippler, generateStippleDots } from '../../../core/src/stipple';
+import type { HalftoneSettings } from '../../../core/src/types';
+
+const baseSettings: HalftoneSettings = {
+  resolution: 8,
+  dotSize: 1,
+  dotShape: 'round',
+  imageBlur: 0,
+  invert: false,
+  useGradient: false,
+  gradientDirection: 'vertical',
+  randomness: 0,
+  color1: '#ffffff',
+  color2: '#000000',
+  customCharacter: '*',
+  fillPattern: 'solid',
+  angle: 0,
+  method: 'stipple',
+  stippleIterations: 10,
+  seed: 2,
+};
+
+// 32x32 horizontal ramp from black to white
+const createRampImage = () => {
+  const width = 32;
+  const height = 32;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = Math.round((x / (width - 1)) * 255);
+      data.set([value, value, value, 255], (y * width + x) * 4);
+    }
+  }
+  return { data, width, height };
+};
+
+describe('weighted Voronoi stippling', () => {
+  it('budgets dots by mean level and concentrates them where the level is high', () => {
+    const { data, width, height } = createRampImage();
+    const dots = generateDotsData(data, width, height, baseSettings);
+    // Mean level of the ramp is 0.5 over an 8x8 grid
+    expect(dots).toHaveLength(32);
+    const bright = dots.filter((dot) => dot.x >= 16).length;
+    expect(bright).toBeGreaterThan(dots.length * 0.65);
+    dots.forEach((dot) => expect(dot.size).toBeCloseTo(2, 6));
+  });
+
+  it('follows darkness instead when inverted', () => {
+    const { data, width, height } = createRampImage();
+    const dots = generateDotsData(data, width, height, { ...baseSettings, invert: true });
+    const dark = dots.filter((dot) => dot.x < 16).length;
+    expect(dark).toBeGreaterThan(dots.length * 0.65);
+  });
+
+  it('reports progress after every relaxation pass', () => {
+    const { data, width, height } = createRampImage();
+    const progress: number[] = [];
+    generateStippleDots(data, width, height, { ...baseSettings, stippleIterations: 4 }, (value) =>
+      progress.push(value)
+    );
+    expect(progress).toEqual([0.25, 0.5, 0.75, 1]);
+  });
+
+  it('moves points to weighted centroids inside the frame with each pass', () => {
+    const { data, width, height } = createRampImage();
+    const stippler = createStippler(data, width, height, baseSettings);
+    const before = stippler.getDots();
+    stippler.step();
+    const after = stippler.getDots();
+    expect(after.map((dot) => dot.x)).not.toEqual(before.map((dot) => dot.x));
+    after.forEach((dot) => {
+      expect(dot.x).toBeGreaterThanOrEqual(0);
+      expect(dot.x).toBeLessThanOrEqual(width);
+      expect(dot.y).toBeGreaterThanOrEqual(0);
+      expect(dot.y).toBeLessThanOrEqual(height);
+    });
+  });
+
+  it('keeps stipples out of large black areas', () => {
+    // 128x32 image: black except for a grey strip on the right
+    const width = 128;
+    const height = 32;
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const value = x >= 112 ? 200 : 0;
+        data.set([value, value, value, 255], (y * width + x) * 4);
+      }
+    }
+    const settings: HalftoneSettings = { ...baseSettings, resolution: 32 };
+    const dots = generateStippleDots(data, width, height, settings);
+    expect(dots.length).toBeGreaterThan(0);
+    dots.forEach((dot) => expect(dot.x).toBeGreaterThanOrEqual(112));
+
+    const colored = generateStippleDots(data, width, height, { ...settings, colorMode: 'image' });
+    expect(colored.map((dot) => dot.x)).toEqual(dots.map((dot) => dot.x));
+    colored.forEach((dot) => expect(dot.color).not.toBe(settings.color1));
+  });
+
+  it('colors stipples with the nearest ink and tags their ink layer', () => {
+    // 32x32 image: red on the left, blue on the right
+    const width = 32;
+    const height = 32;
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        data.set(x < 16 ? [220, 40, 40, 255] : [40, 40, 220, 255], (y * width + x) * 4);
+      }
+    }
+    const dots = generateStippleDots(data, width, height, {
+      ...baseSettings,
+      colorMode: 'inks',
+      paletteMethod: 'custom',
+      paletteColors: ['#0000ff', '#ff0000'],
+    });
+    expect(dots.length).toBeGreaterThan(0);
+    dots.forEach((dot) => {
+      expect(['#0000ff', '#ff0000']).toContain(dot.color);
+      expect(dot.layer).toBe(dot.color === '#0000ff' ? 'ink-1' : 'ink-2');
+    });
+    dots
+      .filter((dot) => dot.x < 12)
+      .forEach((dot) => expect(dot.color).toBe('#ff0000'));
+    dots
+      .filter((dot) => dot.x > 20)
+      .forEach((dot) => expect(dot.color).toBe('#0000ff'));
+  });
+
+  it('renders through the existing SVG generator', () => {
+    const { data, width, height } = createRampImage();
+    const dots = generateDotsData(data, width, height, baseSettings);
+    const svg = generateSvgString(dots, width, height, baseSettings);
+    expect(svg.match(/<circle/g)).toHaveLength(dots.length);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { generateDotsData } from '../../../core/src/halftone';
+import { createCurveEvaluator, createToneMapper, DEFAULT_TONE } from '../../../core/src/utils/tone';
+import type { HalftoneSettings } from '../../../core/src/types';
+
+const baseSettings: HalftoneSettings = {
+  resolution: 4,
+  dotSize: 1,
+  dotShape: 'round',
+  imageBlur: 0,
+  invert: false,
+  useGradient: false,
+  gradientDirection: 'vertical',
+  randomness: 0,
+  color1: '#ffffff',
+  color2: '#000000',
+  customCharacter: '*',
+  fillPattern: 'solid',
+  angle: 0,
+};
+
+describe('createToneMapper', () => {
+  it('leaves luminance unchanged with default settings', () => {
+    const map = createToneMapper(DEFAULT_TONE);
+    [0, 0.25, 0.5, 0.75, 1].forEach((value) => {
+      expect(map(value)).toBeCloseTo(value, 6);
+    });
+  });
+
+  it('remaps black and white points and applies gamma', () => {
+    const levels = createToneMapper({ blackPoint: 0.2, whitePoint: 0.6 });
+    expect(levels(0.1)).toBe(0);
+    expect(levels(0.4)).toBeCloseTo(0.5, 6);
+    expect(levels(0.8)).toBe(1);
+
+    const gamma = createToneMapper({ gamma: 2 });
+    expect(gamma(0.25)).toBeCloseTo(0.5, 6);
+  });
+
+  it('pushes values away from the midpoint with positive contrast', () => {
+    const map = createToneMapper({ contrast: 0.5 });
+    expect(map(0.5)).toBeCloseTo(0.5, 6);
+    expect(map(0.6)).toBeGreaterThan(0.6);
+    expect(map(0.4)).toBeLessThan(0.4);
+  });
+});
+
+describe('createCurveEvaluator', () => {
+  it('passes through control points without overshooting', () => {
+    const points = [
+      { x: 0, y: 0 },
+      { x: 0.3, y: 0.6 },
+      { x: 0.6, y: 0.65 },
+      { x: 1, y: 1 },
+    ];
+    const curve = createCurveEvaluator(points);
+    points.forEach(({ x, y }) => expect(curve(x)).toBeCloseTo(y, 6));
+
+    let previous = -Infinity;
+    for (let x = 0; x <= 1; x += 0.01) {
+      const y = curve(x);
+      expect(y).toBeGreaterThanOrEqual(previous - 1e-9);
+      previous = y;
+    }
+  });
+});
+
+describe('generateDotsData tone stage', () => {
+  it('applies brightness before sizing dots', () => {
+    const data = new Uint8ClampedArray(16 * 16 * 4).fill(64);
+    const plain = generateDotsData(data, 16, 16, baseSettings);
+    const brightened = generateDotsData(data, 16, 16, {
+      ...baseSettings,
+      tone: { ...DEFAULT_TONE, brightness: 0.25 },
+    });
+    expect(brightened[0].size).toBeCloseTo(plain[0].size + 0.25 * 2, 4);
+  });
+});
@@ -5,9 +5,14 @@ import {
   AnimationSettings,
 } from "../../../core/src/types";
 import {
+  createStippler,
   generateDotsData,
   generateSvgString,
   generateLottieAnimation,
+  createShapePolygon,
+  getStampPlacement,
+  generateAsciiText,
+  generateAsciiHtml,
 } from "../../../core/src";
 
 export const useHalftone = (
@@ -25,10 +30,17 @@ export const useHalftone = (
     color2,
     angle,
     imageBlur,
+    screenAngle = 0,
+    ellipseAspect = 0.5,
+    starPoints,
+    customStamp,
+    separation,
   } = settings;
 
   const dotsRef = useRef<Dot[]>([]);
+  const [stampImage, setStampImage] = useState<HTMLImageElement | null>(null);
   const [svgString, setSvgString] = useState<string>("");
+  const [stippleProgress, setStippleProgress] = useState<number | null>(null);
   const [canvasSize, setCanvasSize] = useState<{
     width: number;
     height: number;
@@ -81,14 +93,38 @@ export const useHalftone = (
         }
       }
 
+      // Separated plates: CMYK plates overlap by design, so they overprint with multiply
+      // on white paper; ink and edge layers sit side by side and draw source-over
+      const hasPlates = separation === "cmyk";
+      if (hasPlates) {
+        ctx.fillStyle = "#ffffff";
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+      }
+      ctx.globalCompositeOperation = hasPlates ? "multiply" : "source-over";
+
       dots.forEach((dot) => {
         ctx.fillStyle =
           fillPattern === "solid" ? dot.color : patternStyle || dot.color;
 
+        // ASCII characters: Upright monospace glyphs at the grid's font size
+        if (dot.char) {
+          ctx.font = `${dot.size * 3}px monospace`;
+          ctx.textAlign = "center";
+          ctx.textBaseline = "middle";
+          ctx.fillText(dot.char, dot.x, dot.y);
+          return;
+        }
+
+        // Outline paths: Line-screen strokes are already in image space
+        if (dot.path) {
+          ctx.fill(new Path2D(dot.path));
+          return;
+        }
+
         ctx.save();
         ctx.translate(dot.x, dot.y);
-        if (dotShape !== "round" && angle !== 0) {
-          ctx.rotate((angle * Math.PI) / 180);
+        if (dotShape !== "round" && angle + screenAngle !== 0) {
+          ctx.rotate(((angle + screenAngle) * Math.PI) / 180);
         }
 
         switch (dotShape) {
@@ -102,8 +138,58 @@ export const useHalftone = (
             ctx.rect(-dot.size, -dot.size, dot.size * 2, dot.size * 2);
             ctx.fill();
             break;
+          case "ellipse":
+            ctx.beginPath();
+            ctx.ellipse(
+              0,
+              0,
+              dot.size,
+              dot.size * ellipseAspect,
+              0,
+              0,
+              Math.PI * 2
+            );
+            ctx.fill();
+            break;
+          case "diamond":
+          case "triangle":
+          case "hexagon":
+          case "star":
+          case "line": {
+            const polygon = createShapePolygon(dotShape, dot.size, {
+              starPoints,
+            })!;
+            ctx.beginPath();
+            polygon.forEach(([px, py], i) =>
+              i === 0 ? ctx.moveTo(px, py) : ctx.lineTo(px, py)
+            );
+            ctx.closePath();
+            ctx.fill();
+            break;
+          }
           case "plus":
           case "custom": {
+            // Stamps: Fit the stamp box into the dot like the SVG <use> element
+            if (dotShape === "custom" && customStamp) {
+              const { scale, offsetX, offsetY } = getStampPlacement(
+                customStamp,
+                dot.size
+              );
+              ctx.translate(offsetX, offsetY);
+              ctx.scale(scale, scale);
+              if (customStamp.kind === "path") {
+                ctx.fill(new Path2D(customStamp.data));
+              } else if (stampImage) {
+                ctx.drawImage(
+                  stampImage,
+                  0,
+                  0,
+                  customStamp.width,
+                  customStamp.height
+                );
+              }
+              break;
+            }
             const char = dotShape === "plus" ? "+" : customCharacter || "*";
             const fontSize = dot.size * 3;
             ctx.font = `bold ${fontSize}px sans-serif`;
@@ -115,10 +201,42 @@ export const useHalftone = (
         }
         ctx.restore();
       });
+      ctx.globalCompositeOperation = "source-over";
     },
-    [canvasRef, dotShape, customCharacter, fillPattern, color1, color2, angle]
+    [
+      canvasRef,
+      dotShape,
+      customCharacter,
+      fillPattern,
+      color1,
+      color2,
+      angle,
+      screenAngle,
+      ellipseAspect,
+      starPoints,
+      customStamp,
+      stampImage,
+      separation,
+    ]
   );
 
+  // Bitmap stamps: Decode once; drawing waits for the image and redraws when it loads
+  useEffect(() => {
+    if (customStamp?.kind !== "image") {
+      setStampImage(null);
+      return;
+    }
+    let cancelled = false;
+    const img = new Image();
+    img.onload = () => {
+      if (!cancelled) setStampImage(img);
+    };
+    img.src = customStamp.data;
+    return () => {
+      cancelled = true;
+    };
+  }, [customStamp]);
+
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas || !imageSrc) {
@@ -130,6 +248,8 @@ export const useHalftone = (
       return;
     }
 
+    let cancelled = false;
+    let frameId = 0;
     const img = new Image();
     img.crossOrigin = "Anonymous";
     img.src = imageSrc;
@@ -154,15 +274,58 @@ export const useHalftone = (
       ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
       const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
 
+      // Reset filter before drawing dots to avoid blurring the dots
+      ctx.filter = "none";
+
+      // Stippling: Relax one pass per frame so long runs show progress
+      // (same precedence as generateDotsData: plates and line screens win)
+      const hasLineScreen = settings.lineStyle && settings.lineStyle !== "none";
+      if (
+        settings.method === "stipple" &&
+        settings.separation !== "cmyk" &&
+        !hasLineScreen
+      ) {
+        const stippler = createStippler(
+          imageData.data,
+          canvas.width,
+          canvas.height,
+          settings
+        );
+        let iteration = 0;
+        const runPass = () => {
+          if (cancelled) return;
+          if (iteration < stippler.iterations) {
+            stippler.step();
+            iteration++;
+            setStippleProgress(iteration / stippler.iterations);
+            dotsRef.current = stippler.getDots();
+            drawCanvas(dotsRef.current);
+            frameId = requestAnimationFrame(runPass);
+            return;
+          }
+          dotsRef.current = stippler.getDots();
+          drawCanvas(dotsRef.current);
+          setStippleProgress(null);
+          setSvgString(
+            generateSvgString(
+              dotsRef.current,
+              canvas.width,
+              canvas.height,
+              settings,
+              animationSettings
+            )
+          );
+        };
+        runPass();
+        return;
+      }
+
       dotsRef.current = generateDotsData(
         imageData.data,
         canvas.width,
         canvas.height,
         settings
       );
-
-      // Reset filter before drawing dots to avoid blurring the dots
-      ctx.filter = "none";
       drawCanvas(dotsRef.current);
 
       // Also cache SVG markup for scalable rendering
@@ -183,6 +346,12 @@ export const useHalftone = (
       setSvgString("");
       setCanvasSize({ width: 0, height: 0 });
     };
+
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(frameId);
+      setStippleProgress(null);
+    };
   }, [imageSrc, settings, canvasRef, drawCanvas, imageBlur, onError]);
 
   useEffect(() => {
@@ -225,5 +394,36 @@ export const useHalftone = (
     );
   }, [animationSettings, settings, canvasSize]);
 
-  return { getSvgString, getLottieJson, svgString, canvasSize };
+  // ASCII exports: Plain text and HTML <pre> of the current character grid
+  const getAsciiText = useCallback(() => {
+    if (!canvasSize.width || !canvasSize.height || dotsRef.current.length === 0)
+      return "";
+    return generateAsciiText(
+      dotsRef.current,
+      canvasSize.width,
+      canvasSize.height,
+      settings
+    );
+  }, [settings, canvasSize]);
+
+  const getAsciiHtml = useCallback(() => {
+    if (!canvasSize.width || !canvasSize.height || dotsRef.current.length === 0)
+      return "";
+    return generateAsciiHtml(
+      dotsRef.current,
+      canvasSize.width,
+      canvasSize.height,
+      settings
+    );
+  }, [settings, canvasSize]);
+
+  return {
+    getSvgString,
+    getLottieJson,
+    getAsciiText,
+    getAsciiHtml,
+    svgString,
+    canvasSize,
+    stippleProgress,
+  };
 };